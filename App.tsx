@@ -1,15 +1,12 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   Phone, 
-  Users, 
   Download, 
   Trash2, 
   RefreshCw, 
-  Eye, 
   MessageCircle, 
   AlertCircle, 
   CheckCircle2,
-  Smartphone,
   Copy,
   Check,
   List,
@@ -19,18 +16,115 @@ import {
   ChevronUp,
   Sliders,
   Eraser,
-  Save,
   Send,
-  XCircle,
-  ArchiveRestore
+  ArchiveRestore,
+  Calculator,
+  Globe,
+  Upload,
+  Dices,
+  FolderPlus,
+  CopyPlus,
+  Pencil,
+  ListOrdered,
+  History,
+  Undo2,
+  Redo2,
+  Search,
+  CheckSquare,
+  Square,
+  MoveVertical,
+  Tag,
+  UserPlus,
+  ShieldCheck,
+  X
 } from 'lucide-react';
-import { GeneratedContact, GenerationConfig, GenerationOptions } from './types';
-import { validatePattern, generatePhoneNumbers } from './utils/generator';
-import { generateVCF } from './utils/vcf';
+import {
+  GeneratedContact,
+  GenerationConfig,
+  GenerationConstraints,
+  GenerationOptions,
+  GenerationProgress,
+  GenerationResult,
+  DuplicateScope,
+  BatchRecord,
+  CSVDelimiter,
+  ExportChunk,
+  ExportColumn,
+  ExportFormat,
+  ExportRecord,
+  NumberFormat,
+  PatternCapacity,
+  Project,
+  RejectionReason,
+  SessionSettings,
+  VCardVersion,
+  VerificationReport,
+  ViolationKind
+} from './types';
+import {
+  validatePattern,
+  resolveGenerationStrategy,
+  countValidNumbers,
+  describeGenerationResult,
+  REJECTION_LABELS,
+  validateContactNumber
+} from './utils/generator';
+import { constraintsFromDensity, DEFAULT_REPETITION_DENSITY } from './utils/constraints';
+import { createRandomSeed, parseSeed } from './utils/random';
+import { parsePattern, splitPatternTokens, describeSlotToken, createSampleNumber } from './utils/pattern';
+import {
+  NUMBERING_PROFILES,
+  getProfile,
+  getLockedPrefix,
+  getLocalLength,
+  createDefaultPattern,
+  detectMobilePrefix
+} from './utils/profiles';
+import { EXPORTERS, EXPORT_COLUMN_LABELS, ExportOptions, splitIntoChunks } from './utils/exporters';
+import { createZip } from './utils/zip';
+import { verifyContacts, VIOLATION_LABELS } from './utils/verification';
+import { formatContactNumber, toWhatsAppNumber, toTelegramNumber, toLocalNumber } from './utils/phone';
+import { importContactsFile } from './utils/importer';
+import { loadSession, saveSession } from './utils/storage';
+import {
+  collectOtherProjectNumbers,
+  createDefaultSettings,
+  createProject,
+  DEFAULT_PROJECT_NAME,
+  duplicateProject
+} from './utils/projects';
+import {
+  createContactContext,
+  NamingContext,
+  renameContacts,
+  renumberContacts,
+  sortByNumber,
+  stampNewContacts
+} from './utils/contacts';
+import { renderTemplate, validateTemplate } from './utils/template';
+import { ContactFilter, EMPTY_FILTER, filterContacts, isFilterActive, validateDigitFilter } from './utils/filters';
+import { createHistory, recordChange, redoChange, undoChange, UndoHistory } from './utils/history';
+import {
+  createBatchId,
+  createBatchRecord,
+  getBatchContacts,
+  getBatchNumbers,
+  getNextBatchNumber
+} from './utils/batches';
+import {
+  getTestRanges,
+  isDeepLinkAllowed,
+  parseDigitList,
+  TEST_DATA_CATEGORY,
+  TEST_DATA_NOTE,
+  validateSafePattern,
+  validateTestRanges
+} from './utils/safety';
+import { GenerationTask, runGenerationInWorker } from './utils/generationWorker';
 
 // Since we are in a browser, we use Blob/URL for downloading
-const downloadFile = (content: string, filename: string) => {
-  const blob = new Blob([content], { type: 'text/vcard;charset=utf-8' });
+const downloadFile = (content: string | Uint8Array, filename: string, mimeType = 'text/vcard;charset=utf-8') => {
+  const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -81,41 +175,748 @@ const CollapsibleCard = ({
   );
 };
 
+// Two-or-more option toggle used for small settings (enumeration order, number format)
+interface SegmentedToggleProps<T extends string> {
+  options: readonly (readonly [T, string])[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const SegmentedToggle = <T extends string>({ options, value, onChange }: SegmentedToggleProps<T>) => {
+  return (
+    <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))` }}>
+      {options.map(([optionValue, label]) => (
+        <button
+          key={optionValue}
+          type="button"
+          onClick={() => onChange(optionValue)}
+          className={`py-2 rounded-xl text-sm font-bold border-2 transition ${
+            value === optionValue
+              ? 'border-emerald-500 bg-emerald-50 text-emerald-700'
+              : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const VCARD_VERSION_OPTIONS = [['2.1', '2.1'], ['3.0', '3.0'], ['4.0', '4.0']] as const;
+
+const CSV_DELIMITER_OPTIONS = [[',', 'فاصلة ,'], [';', 'فاصلة منقوطة ;'], ['\t', 'Tab']] as const;
+
+// Numeric field for a single limit (constraints, chunk size); empty means "no limit"
+interface ConstraintInputProps {
+  label: string;
+  hint: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}
+
+const ConstraintInput = ({ label, hint, value, onChange }: ConstraintInputProps) => {
+  return (
+    <div>
+      <label className="block text-xs font-bold text-slate-700 mb-1">{label}</label>
+      <input
+        type="number"
+        lang="en"
+        inputMode="numeric"
+        min={1}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        style={{ direction: 'ltr' }}
+        className="w-full text-center bg-white border-2 border-slate-200 rounded-xl py-1.5 focus:border-emerald-500 outline-none placeholder:text-slate-300 font-mono [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+        placeholder="∞"
+      />
+      <p className="text-[10px] text-slate-400 mt-0.5">{hint}</p>
+    </div>
+  );
+};
+
+// Non-blocking replacement for window.confirm
+interface ConfirmRequest {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  cancelLabel?: string; // Defaults to 'إلغاء'
+  onConfirm: () => void;
+}
+
+interface ConfirmDialogProps {
+  request: ConfirmRequest;
+  onClose: () => void;
+}
+
+const ConfirmDialog = ({ request, onClose }: ConfirmDialogProps) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[90] flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl max-w-sm w-full p-5 space-y-4"
+        role="dialog"
+        aria-modal="true"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="font-bold text-slate-800">{request.title}</h3>
+        <p className="text-sm text-slate-600 whitespace-pre-line">{request.message}</p>
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              onClose();
+              request.onConfirm();
+            }}
+            className="bg-red-600 text-white font-bold py-2 rounded-xl hover:bg-red-700 transition"
+          >
+            {request.confirmLabel}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="bg-slate-100 text-slate-700 font-bold py-2 rounded-xl hover:bg-slate-200 transition"
+          >
+            {request.cancelLabel ?? 'إلغاء'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Non-blocking replacement for window.prompt, for names entered in one line
+interface PromptRequest {
+  title: string;
+  label: string;
+  initialValue: string;
+  confirmLabel: string;
+  onConfirm: (value: string) => void; // Called with the trimmed, non-empty value
+}
+
+interface PromptDialogProps {
+  request: PromptRequest;
+  onClose: () => void;
+}
+
+const PromptDialog = ({ request, onClose }: PromptDialogProps) => {
+  const [value, setValue] = useState<string>(request.initialValue);
+  const trimmed = value.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed) return;
+    onClose();
+    request.onConfirm(trimmed);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[90] flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <form
+        className="bg-white rounded-2xl shadow-2xl max-w-sm w-full p-5 space-y-4"
+        role="dialog"
+        aria-modal="true"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <h3 className="font-bold text-slate-800">{request.title}</h3>
+        <label className="block space-y-1">
+          <span className="text-sm text-slate-600">{request.label}</span>
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && onClose()}
+            autoFocus
+            className="w-full px-3 py-2 border border-slate-300 rounded-xl focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            type="submit"
+            disabled={!trimmed}
+            className="bg-emerald-600 text-white font-bold py-2 rounded-xl hover:bg-emerald-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {request.confirmLabel}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="bg-slate-100 text-slate-700 font-bold py-2 rounded-xl hover:bg-slate-200 transition"
+          >
+            إلغاء
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+// Windowed list: only the rows in view (plus a few around them) are mounted,
+// so thousands of contacts scroll smoothly. Rows must have a fixed height.
+interface VirtualListProps<T> {
+  items: T[];
+  rowHeight: number;
+  maxHeight: number;
+  getKey: (item: T) => string;
+  renderRow: (item: T, index: number) => React.ReactNode;
+}
+
+const VIRTUAL_LIST_OVERSCAN = 6;
+
+const VirtualList = <T,>({ items, rowHeight, maxHeight, getKey, renderRow }: VirtualListProps<T>) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const height = Math.min(maxHeight, items.length * rowHeight);
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - VIRTUAL_LIST_OVERSCAN);
+  const end = Math.min(items.length, Math.ceil((scrollTop + height) / rowHeight) + VIRTUAL_LIST_OVERSCAN);
+
+  return (
+    <div
+      className="overflow-y-auto overscroll-contain"
+      style={{ height }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="relative" style={{ height: items.length * rowHeight }}>
+        {items.slice(start, end).map((item, offset) => (
+          <div
+            key={getKey(item)}
+            className="absolute inset-x-0"
+            style={{ top: (start + offset) * rowHeight, height: rowHeight }}
+          >
+            {renderRow(item, start + offset)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Height of one contact row in the preview, including the gap below it
+const CONTACT_ROW_HEIGHT = 88;
+
+// The part of a project that list operations change, snapshotted for undo/redo
+interface ListState {
+  contacts: GeneratedContact[];
+  batches: BatchRecord[];
+  nextSerial: number;
+}
+
+// Undo snackbar stays visible for this long after a destructive action
+const SNACKBAR_DURATION_MS = 6000;
+
+// Capacity is recounted once the pattern and constraint inputs have been still for this long
+const CAPACITY_DELAY_MS = 250;
+
+// Report shown in the list view; `inList` tells whether its contact ids can be selected
+interface VerificationResult {
+  title: string;
+  report: VerificationReport;
+  inList: boolean;
+}
+
+// Violations listed one by one before the rest is summarized
+const MAX_LISTED_VIOLATIONS = 20;
+
+const DEEP_LINK_BLOCKED_TITLE = 'الوضع الآمن: الروابط معطلة للأرقام المولّدة غير المستثناة';
+
+const DEFAULT_SETTINGS = createDefaultSettings();
+
 const App: React.FC = () => {
   // State
-  // Default pattern: 10 chars, starting with 05, rest underscores
-  const [pattern, setPattern] = useState<string>('05________');
+  // Projects are independent lists; the fields below always hold the active project,
+  // and `projects` keeps the others as they were when last switched away from
+  const [projects, setProjects] = useState<Project[]>(() => [createProject(DEFAULT_PROJECT_NAME)]);
+  const [activeProjectId, setActiveProjectId] = useState<string>(() => projects[0].id);
+  const [exportHistory, setExportHistory] = useState<ExportRecord[]>([]);
+  const [nextSerial, setNextSerial] = useState<number>(1);
+  const [batches, setBatches] = useState<BatchRecord[]>([]);
+  const [showBatchHistory, setShowBatchHistory] = useState(false);
+  // Undo/redo of list changes; per project and not persisted
+  const [listHistory, setListHistory] = useState<UndoHistory<ListState>>(createHistory<ListState>());
+  const [undoSnackbar, setUndoSnackbar] = useState<string | null>(null);
+  const [confirmRequest, setConfirmRequest] = useState<ConfirmRequest | null>(null);
+  const [promptRequest, setPromptRequest] = useState<PromptRequest | null>(null);
+  // Preview list search and filters
+  const [contactFilter, setContactFilter] = useState<ContactFilter>(EMPTY_FILTER);
+  // Last after-the-fact check of a batch, an import or the whole list; cleared on project switch
+  const [verification, setVerification] = useState<VerificationResult | null>(null);
+  // Checkbox selection for bulk actions; the anchor is the last toggled row, for range selection
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null);
+  // Touch screens have no Shift key: while on, a tap selects the range from the anchor
+  const [isRangeMode, setIsRangeMode] = useState(false);
+  // Inline editing of one row, and the form for adding a number by hand
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editNumber, setEditNumber] = useState('');
+  const [showManualAdd, setShowManualAdd] = useState(false);
+  const [manualNumber, setManualNumber] = useState('');
+  const [manualName, setManualName] = useState('');
+  // Numbering profile decides the slot count and the locked prefix (Saudi: 05 + 8 slots)
+  const [profileId, setProfileId] = useState<string>(DEFAULT_SETTINGS.profileId);
+  const [mobilePrefix, setMobilePrefix] = useState<string>(DEFAULT_SETTINGS.mobilePrefix);
+  // Default pattern: locked prefix (05), rest underscores
+  const [pattern, setPattern] = useState<string>(DEFAULT_SETTINGS.pattern);
   // Initialize count as empty string so the input is empty on load
-  const [count, setCount] = useState<number | string>('');
-  const [contactNamePrefix, setContactNamePrefix] = useState<string>('TEST <');
+  const [count, setCount] = useState<number | string>(DEFAULT_SETTINGS.count);
+  const [contactNamePrefix, setContactNamePrefix] = useState<string>(DEFAULT_SETTINGS.contactNamePrefix);
+  // Names are rendered once from the template when contacts are created; ORG/NOTE on every export
+  const [nameTemplate, setNameTemplate] = useState<string>(DEFAULT_SETTINGS.nameTemplate);
+  const [orgTemplate, setOrgTemplate] = useState<string>(DEFAULT_SETTINGS.orgTemplate);
+  const [noteTemplate, setNoteTemplate] = useState<string>(DEFAULT_SETTINGS.noteTemplate);
   const [generatedContacts, setGeneratedContacts] = useState<GeneratedContact[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  // Live counters from the generation worker, null until its first report
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const [isCancellingGeneration, setIsCancellingGeneration] = useState(false);
+  const generationTaskRef = useRef<GenerationTask | null>(null);
   const [viewMode, setViewMode] = useState<'form' | 'preview'>('form');
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  // Applies to VCF export and clipboard copy; deep links are always international
+  const [numberFormat, setNumberFormat] = useState<NumberFormat>(DEFAULT_SETTINGS.numberFormat);
+  const [vcardVersion, setVcardVersion] = useState<VCardVersion>(DEFAULT_SETTINGS.vcardVersion);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(DEFAULT_SETTINGS.exportFormat);
+  const [exportColumns, setExportColumns] = useState<ExportColumn[]>(DEFAULT_SETTINGS.exportColumns);
+  const [csvDelimiter, setCsvDelimiter] = useState<CSVDelimiter>(DEFAULT_SETTINGS.csvDelimiter);
+  const [exportChunkSize, setExportChunkSize] = useState<number | null>(DEFAULT_SETTINGS.exportChunkSize);
+  const [showExportHistory, setShowExportHistory] = useState(false);
+  // Test-safe mode: generation stays inside test ranges and generated numbers get no deep links
+  const [safeMode, setSafeMode] = useState<boolean>(DEFAULT_SETTINGS.safeMode);
+  const [testRangesInput, setTestRangesInput] = useState<string>(DEFAULT_SETTINGS.testRangesInput);
+  const [deepLinkWhitelistInput, setDeepLinkWhitelistInput] = useState<string>(DEFAULT_SETTINGS.deepLinkWhitelistInput);
+  // Numbers from imported VCF/CSV files: never generated again, even if not shown in the list
+  const [importedNumbers, setImportedNumbers] = useState<Set<string>>(new Set());
+  const [showImportedInList, setShowImportedInList] = useState(false);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  // 'all' also rejects numbers that exist in any other project
+  const [duplicateScope, setDuplicateScope] = useState<DuplicateScope>(DEFAULT_SETTINGS.duplicateScope);
 
   // Advanced Settings State
-  const [showAdvanced, setShowAdvanced] = useState(false);
-  const [repetitionDensity, setRepetitionDensity] = useState<number>(0.3); // Default to Balanced (0.3)
+  const [showAdvanced, setShowAdvanced] = useState(DEFAULT_SETTINGS.showAdvanced);
+  const [repetitionDensity, setRepetitionDensity] = useState<number>(DEFAULT_SETTINGS.repetitionDensity); // Default to Balanced (0.3)
+  // Empty seed means "pick a new random seed on every run"
+  const [seedInput, setSeedInput] = useState<string>(DEFAULT_SETTINGS.seedInput);
+  const [lastSeed, setLastSeed] = useState<number | null>(null);
+  // Only used when the pattern is small enough to be enumerated exhaustively
+  const [enumerationOrder, setEnumerationOrder] = useState<'shuffle' | 'ascending'>(DEFAULT_SETTINGS.enumerationOrder);
+  // null = follow the density preset; set as soon as a constraint field is edited directly
+  const [customConstraints, setCustomConstraints] = useState<GenerationConstraints | null>(DEFAULT_SETTINGS.customConstraints);
+  const [forbiddenInput, setForbiddenInput] = useState<string>(DEFAULT_SETTINGS.forbiddenInput);
+  // Nothing is written back until the stored session has been restored, so it is never overwritten by defaults
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
+
+  const profile = getProfile(profileId);
+  const lockedPrefix = getLockedPrefix(profile, mobilePrefix);
+  const lockedCount = lockedPrefix.length;
+  const localLength = getLocalLength(profile);
+  const customTestRanges = useMemo(() => parseDigitList(testRangesInput), [testRangesInput]);
+  const testRanges = getTestRanges(profile, customTestRanges);
+  // Whitelisted numbers may be typed in any common form (+966..., 05...)
+  const deepLinkWhitelist = useMemo(
+    () => new Set<string>(parseDigitList(deepLinkWhitelistInput).map(n => toLocalNumber(n, profile))),
+    [deepLinkWhitelistInput, profile]
+  );
+  const numberFormatOptions = [
+    ['local', `محلي (${lockedPrefix}...)`],
+    ['international', `دولي (+${profile.countryCode}...)`]
+  ] as const;
+
+  const patternTokens = useMemo(() => splitPatternTokens(pattern), [pattern]);
+  const numUnknowns = useMemo(
+    () => parsePattern(pattern).slots?.filter(slot => !slot.isFixed).length ?? 0,
+    [pattern]
+  );
+  const activeConstraints = useMemo(
+    () => customConstraints ?? constraintsFromDensity(repetitionDensity, numUnknowns),
+    [customConstraints, repetitionDensity, numUnknowns]
+  );
+
+  // Options as the generator will see them (advanced settings only apply while the card is open)
+  const generationOptions = useMemo<GenerationOptions>(() => ({
+    profileId,
+    repetitionDensity: showAdvanced ? repetitionDensity : DEFAULT_REPETITION_DENSITY,
+    constraints: showAdvanced ? activeConstraints : undefined,
+    enumerationOrder: showAdvanced ? enumerationOrder : 'shuffle'
+  }), [profileId, showAdvanced, repetitionDensity, activeConstraints, enumerationOrder]);
+
+  // Numbers of the other projects only change when switching, so this stays cheap while editing
+  const otherProjectNumbers = useMemo(
+    () => collectOtherProjectNumbers(projects, activeProjectId),
+    [projects, activeProjectId]
+  );
+
+  // Everything the generator must avoid: the current list plus imported numbers,
+  // and every other project's numbers when duplicate checks span all projects
+  const existingNumbers = useMemo(() => {
+    const numbers = new Set<string>([...importedNumbers, ...generatedContacts.map(c => c.number)]);
+    if (duplicateScope === 'all') otherProjectNumbers.forEach(n => numbers.add(n));
+    return numbers;
+  }, [generatedContacts, importedNumbers, duplicateScope, otherProjectNumbers]);
+
+  // Live count of how many new numbers the current pattern can still produce. Counting may
+  // enumerate the whole pattern, so it only runs in the form view and after the inputs settle.
+  const [capacity, setCapacity] = useState<PatternCapacity | null>(null);
+  useEffect(() => {
+    if (viewMode !== 'form') return;
+    const timer = setTimeout(() => {
+      setCapacity(validatePattern(pattern, generationOptions) ? null : countValidNumbers(pattern, generationOptions, existingNumbers));
+    }, CAPACITY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [viewMode, pattern, generationOptions, existingNumbers]);
+
+  const sessionSettings = useMemo<SessionSettings>(() => ({
+    profileId,
+    mobilePrefix,
+    pattern,
+    count,
+    contactNamePrefix,
+    numberFormat,
+    vcardVersion,
+    showAdvanced,
+    repetitionDensity,
+    seedInput,
+    enumerationOrder,
+    customConstraints,
+    forbiddenInput,
+    duplicateScope,
+    nameTemplate,
+    orgTemplate,
+    noteTemplate,
+    exportFormat,
+    exportColumns,
+    csvDelimiter,
+    exportChunkSize,
+    safeMode,
+    testRangesInput,
+    deepLinkWhitelistInput
+  }), [
+    profileId, mobilePrefix, pattern, count, contactNamePrefix, numberFormat, vcardVersion,
+    showAdvanced, repetitionDensity, seedInput, enumerationOrder, customConstraints, forbiddenInput,
+    duplicateScope, nameTemplate, orgTemplate, noteTemplate, exportFormat, exportColumns, csvDelimiter,
+    exportChunkSize, safeMode, testRangesInput, deepLinkWhitelistInput
+  ]);
+
+  // All projects with the active one brought up to date from the form state
+  const allProjects = useMemo(
+    () => projects.map(p => (p.id === activeProjectId
+      ? { ...p, settings: sessionSettings, contacts: generatedContacts, importedNumbers: Array.from(importedNumbers), exportHistory, batches, nextSerial }
+      : p)),
+    [projects, activeProjectId, sessionSettings, generatedContacts, importedNumbers, exportHistory, batches, nextSerial]
+  );
+  const activeProject = allProjects.find(p => p.id === activeProjectId)!;
+
+  // Loads a project into the form state
+  const applyProject = (project: Project) => {
+    const s = project.settings;
+    setProfileId(getProfile(s.profileId).id);
+    setMobilePrefix(s.mobilePrefix);
+    setPattern(s.pattern);
+    setCount(s.count);
+    setContactNamePrefix(s.contactNamePrefix);
+    setNumberFormat(s.numberFormat);
+    setVcardVersion(s.vcardVersion);
+    setShowAdvanced(s.showAdvanced);
+    setRepetitionDensity(s.repetitionDensity);
+    setSeedInput(s.seedInput);
+    setEnumerationOrder(s.enumerationOrder);
+    setCustomConstraints(s.customConstraints);
+    setForbiddenInput(s.forbiddenInput);
+    setDuplicateScope(s.duplicateScope);
+    setNameTemplate(s.nameTemplate);
+    setOrgTemplate(s.orgTemplate);
+    setNoteTemplate(s.noteTemplate);
+    setExportFormat(s.exportFormat);
+    setExportColumns(s.exportColumns);
+    setCsvDelimiter(s.csvDelimiter);
+    setExportChunkSize(s.exportChunkSize);
+    setSafeMode(s.safeMode);
+    setTestRangesInput(s.testRangesInput);
+    setDeepLinkWhitelistInput(s.deepLinkWhitelistInput);
+    setGeneratedContacts(project.contacts);
+    setImportedNumbers(new Set(project.importedNumbers));
+    setExportHistory(project.exportHistory);
+    setNextSerial(project.nextSerial);
+    setBatches(project.batches);
+    setListHistory(createHistory<ListState>());
+    setUndoSnackbar(null);
+    setContactFilter(EMPTY_FILTER);
+    setSelectedIds(new Set());
+    setSelectionAnchorId(null);
+    setEditingId(null);
+    setLastSeed(null);
+    setVerification(null);
+    setViewMode('form');
+  };
+
+  // Restore the previous session (settings, contacts and their saved status) once on load
+  useEffect(() => {
+    let cancelled = false;
+    loadSession()
+      .then(session => {
+        if (cancelled || !session || session.projects.length === 0) return;
+        const active = session.projects.find(p => p.id === session.activeProjectId) ?? session.projects[0];
+        setProjects(session.projects);
+        setActiveProjectId(active.id);
+        applyProject(active);
+      })
+      .catch(() => {
+        if (!cancelled) setError("تعذر استعادة الجلسة السابقة، وبدأت جلسة جديدة.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsSessionRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Save automatically, debounced so typing in the form does not write on every key
+  useEffect(() => {
+    if (!isSessionRestored) return;
+    const timer = setTimeout(() => {
+      saveSession({ activeProjectId, projects: allProjects }).catch(() => {
+        setError("تعذر حفظ الجلسة في المتصفح، وقد تضيع التغييرات عند إعادة تحميل الصفحة.");
+      });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [isSessionRestored, activeProjectId, allProjects]);
+
+  const switchToProject = (project: Project, nextProjects: Project[]) => {
+    setProjects(nextProjects);
+    setActiveProjectId(project.id);
+    applyProject(project);
+  };
+
+  const handleProjectSelect = (id: string) => {
+    const target = allProjects.find(p => p.id === id);
+    if (target && id !== activeProjectId) switchToProject(target, allProjects);
+  };
+
+  const handleCreateProject = () => {
+    setPromptRequest({
+      title: 'مشروع جديد',
+      label: 'اسم المشروع الجديد:',
+      initialValue: `مشروع ${allProjects.length + 1}`,
+      confirmLabel: 'إنشاء',
+      onConfirm: name => {
+        const project = createProject(name);
+        switchToProject(project, [...allProjects, project]);
+      }
+    });
+  };
+
+  const handleDuplicateProject = () => {
+    setPromptRequest({
+      title: 'نسخ المشروع',
+      label: 'اسم النسخة:',
+      initialValue: `${activeProject.name} (نسخة)`,
+      confirmLabel: 'نسخ',
+      onConfirm: name => {
+        const copy = duplicateProject(activeProject, name);
+        switchToProject(copy, [...allProjects, copy]);
+      }
+    });
+  };
+
+  const handleRenameProject = () => {
+    setPromptRequest({
+      title: 'إعادة تسمية المشروع',
+      label: 'الاسم الجديد للمشروع:',
+      initialValue: activeProject.name,
+      confirmLabel: 'حفظ',
+      onConfirm: name => setProjects(prev => prev.map(p => (p.id === activeProjectId ? { ...p, name } : p)))
+    });
+  };
+
+  const handleDeleteProject = () => {
+    setConfirmRequest({
+      title: 'حذف المشروع',
+      message: `هل أنت متأكد من حذف المشروع "${activeProject.name}" مع قائمته (${generatedContacts.length} رقم)؟\n\nلا يمكن التراجع عن هذه العملية.`,
+      confirmLabel: 'حذف',
+      onConfirm: () => {
+        const remaining = allProjects.filter(p => p.id !== activeProjectId);
+        // There is always at least one project
+        const next = remaining[0] ?? createProject(DEFAULT_PROJECT_NAME);
+        switchToProject(next, remaining.length > 0 ? remaining : [next]);
+      }
+    });
+  };
+
+  const recordExport = (fileName: string, exportedCount: number, chunks?: ExportChunk[]) => {
+    setExportHistory(prev => [...prev, { timestamp: Date.now(), fileName, count: exportedCount, chunks }]);
+  };
+
+  const applyListState = (state: ListState) => {
+    setGeneratedContacts(state.contacts);
+    setBatches(state.batches);
+    setNextSerial(state.nextSerial);
+  };
+
+  // Every change to the list goes through here so undo always restores a consistent snapshot.
+  // Destructive changes also show the undo snackbar.
+  const commitListChange = (label: string, changes: Partial<ListState>, showUndo = false) => {
+    const before: ListState = { contacts: generatedContacts, batches, nextSerial };
+    const after: ListState = { ...before, ...changes };
+    setListHistory(prev => recordChange(prev, label, before, after));
+    applyListState(after);
+    setUndoSnackbar(showUndo ? label : null);
+  };
+
+  const handleUndo = () => {
+    const result = undoChange<ListState>(listHistory);
+    if (!result) return;
+    setListHistory(result.history);
+    applyListState(result.entry.before);
+    setUndoSnackbar(null);
+    setSuccessMsg(`تم التراجع عن: ${result.entry.label}`);
+    if (viewMode === 'preview' && result.entry.before.contacts.length === 0) setViewMode('form');
+  };
+
+  const handleRedo = () => {
+    const result = redoChange<ListState>(listHistory);
+    if (!result) return;
+    setListHistory(result.history);
+    applyListState(result.entry.after);
+    setSuccessMsg(`تمت إعادة: ${result.entry.label}`);
+  };
+
+  // Hide the snackbar after a while; a newer action restarts the timer
+  useEffect(() => {
+    if (!undoSnackbar) return;
+    const timer = setTimeout(() => setUndoSnackbar(null), SNACKBAR_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [undoSnackbar, listHistory]);
+
+  const filteredContacts = useMemo(
+    () => filterContacts(generatedContacts, contactFilter),
+    [generatedContacts, contactFilter]
+  );
+  const digitFilterError = validateDigitFilter(contactFilter.digitPattern);
+
+  // Ids of deleted contacts may linger in the set; only contacts still in the list count
+  const selectedContacts = useMemo<GeneratedContact[]>(
+    () => generatedContacts.filter((c: GeneratedContact) => selectedIds.has(c.id)),
+    [generatedContacts, selectedIds]
+  );
+  const areAllFilteredSelected = filteredContacts.length > 0
+    && filteredContacts.every((c: GeneratedContact) => selectedIds.has(c.id));
+
+  const updateFilter = <K extends keyof ContactFilter>(key: K, value: ContactFilter[K]) => {
+    setContactFilter(prev => ({ ...prev, [key]: value }));
+  };
+
+  const naming: NamingContext = { prefix: contactNamePrefix, pattern };
+  const batchNumbers = useMemo(() => getBatchNumbers(batches), [batches]);
+  const nameTemplateError = validateTemplate(nameTemplate);
+
+  // Live preview of the first names the next batch would get, on sample numbers from the pattern
+  // Example numbers stand in for generated ones, so typing never runs the generator
+  const namePreview = useMemo(() => {
+    const { slots } = parsePattern(pattern);
+    if (nameTemplateError || !slots) return [];
+    return [0, 1, 2].map(index => renderTemplate(nameTemplate, {
+      ...naming,
+      serial: nextSerial + index,
+      batch: getNextBatchNumber(batches),
+      date: new Date(),
+      number: createSampleNumber(slots, index)
+    }));
+  }, [nameTemplate, nameTemplateError, pattern, contactNamePrefix, nextSerial, batches]);
+
+  // Export options; pass the batch list when it is newer than the state (batch just created)
+  const createExportOptions = (batchList: BatchRecord[] = batches): ExportOptions => {
+    const exportBatchNumbers = getBatchNumbers(batchList);
+    return {
+      version: vcardVersion,
+      numberFormat,
+      fallbackProfileId: profileId,
+      columns: exportColumns,
+      delimiter: csvDelimiter,
+      batchNumbers: exportBatchNumbers,
+      extraFields: (orgTemplate || noteTemplate || safeMode)
+        ? contact => {
+          const context = createContactContext(contact, naming, exportBatchNumbers);
+          const note = noteTemplate ? renderTemplate(noteTemplate, context) : undefined;
+          // Generated numbers are marked as test data so they are never mistaken for real contacts
+          const isTestData = safeMode && contact.source !== 'manual' && contact.source !== 'imported';
+          return {
+            org: orgTemplate ? renderTemplate(orgTemplate, context) : undefined,
+            note: isTestData ? [TEST_DATA_NOTE, note].filter(Boolean).join(' | ') : note,
+            categories: isTestData ? [TEST_DATA_CATEGORY] : undefined
+          };
+        }
+        : undefined
+    };
+  };
+
+  // Downloads contacts in the chosen export format and records the export. Lists larger than
+  // the chunk size become a ZIP of numbered chunk files, each recorded with its range.
+  // `label` names what was exported, e.g. "full" gives contacts_<prefix>_full_<time>.
+  const exportContacts = (contacts: GeneratedContact[], label: string, batchList?: BatchRecord[]) => {
+    const fileStem = `contacts_${contactNamePrefix}_${label}_${new Date().getTime()}`;
+    const exporter = EXPORTERS[exportFormat];
+    const options = createExportOptions(batchList);
+
+    if (exportChunkSize === null || contacts.length <= exportChunkSize) {
+      const fileName = `${fileStem}.${exporter.extension}`;
+      downloadFile(exporter.serialize(contacts, options), fileName, exporter.mimeType);
+      recordExport(fileName, contacts.length);
+      return;
+    }
+
+    const parts = splitIntoChunks(contacts, exportChunkSize, fileStem, exporter.extension);
+    const fileName = `${fileStem}.zip`;
+    downloadFile(
+      createZip(parts.map(part => ({ name: part.chunk.fileName, content: exporter.serialize(part.contacts, options) }))),
+      fileName,
+      'application/zip'
+    );
+    recordExport(fileName, contacts.length, parts.map(part => part.chunk));
+  };
+
+  // Downloads one chunk of an earlier ZIP export again, from the contacts still in the list
+  const handleRedownloadChunk = (chunk: ExportChunk) => {
+    const numbers = new Set(chunk.numbers);
+    const chunkContacts = generatedContacts.filter(c => numbers.has(c.number));
+    if (chunkContacts.length === 0) {
+      setError(`لا توجد أرقام من الملف ${chunk.fileName} في القائمة الحالية.`);
+      return;
+    }
+    const exporter = EXPORTERS[exportFormat];
+    const fileName = chunk.fileName.replace(/\.[^.]+$/, `.${exporter.extension}`);
+    downloadFile(exporter.serialize(chunkContacts, createExportOptions()), fileName, exporter.mimeType);
+    setSuccessMsg(`تم تنزيل ${fileName} (${chunkContacts.length} من ${chunk.numbers.length} رقم).`);
+  };
 
-  // Input Refs for the 10-slot grid
+  // Input Refs for the slot grid
   const slotRefs = useRef<(HTMLInputElement | null)[]>([]);
 
   // Clear messages on change
   useEffect(() => {
     if (error) setError(null);
     if (successMsg) setSuccessMsg(null);
-  }, [pattern, count, contactNamePrefix, repetitionDensity]);
+  }, [pattern, count, contactNamePrefix, nameTemplate, repetitionDensity, seedInput, enumerationOrder, customConstraints]);
+
+  // Replaces one slot (a digit, '_' or a whole [class]) and rebuilds the pattern string
+  const setPatternSlot = (index: number, token: string) => {
+    const newPatternArray = [...patternTokens];
+    // Ensure array matches the profile length (safety)
+    while (newPatternArray.length < localLength) newPatternArray.push('_');
+
+    newPatternArray[index] = token;
+    setPattern(newPatternArray.join(''));
+  };
 
   const handlePatternSlotChange = (index: number, value: string) => {
-    // Prevent changing the fixed prefix '05' (indices 0 and 1)
-    if (index < 2) return;
+    // Prevent changing the locked prefix (e.g. '05')
+    if (index < lockedCount) return;
 
     // Only allow digits or underscore
     let char = value;
     
     // If user pasted multiple chars or typed fast, take the last character entered
+    // (typing into a class slot replaces the class)
     if (value.length > 1) {
       char = value.slice(-1);
     }
@@ -125,15 +926,10 @@ const App: React.FC = () => {
     if (!/^[0-9_]$/.test(char)) return;
 
     // Update state
-    const newPatternArray = pattern.split('');
-    // Ensure array is 10 chars long (safety)
-    while (newPatternArray.length < 10) newPatternArray.push('_');
-    
-    newPatternArray[index] = char;
-    setPattern(newPatternArray.join(''));
+    setPatternSlot(index, char);
 
     // Auto-focus next slot if it's a digit and we are not at the end
-    if (index < 9 && /^[0-9_]$/.test(char)) {
+    if (index < localLength - 1 && /^[0-9_]$/.test(char)) {
       slotRefs.current[index + 1]?.focus();
     }
   };
@@ -141,33 +937,67 @@ const App: React.FC = () => {
   const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
     // Handle Backspace navigation
     if (e.key === 'Backspace') {
-      if (index < 2) return; // Safety check for fixed slots
+      if (index < lockedCount) return; // Safety check for fixed slots
       
-      if (pattern[index] === '_' && index > 2) {
+      const token = patternTokens[index] ?? '_';
+      if (token === '_' && index > lockedCount) {
          e.preventDefault();
-         const newPatternArray = pattern.split('');
-         newPatternArray[index - 1] = '_';
-         setPattern(newPatternArray.join(''));
+         setPatternSlot(index - 1, '_');
          slotRefs.current[index - 1]?.focus();
-      } else if (pattern[index] !== '_') {
-        // If current slot has value, just clear it to '_'
+      } else if (token !== '_') {
+        // If current slot has value (digit or class), just clear it to '_'
         e.preventDefault();
-        const newPatternArray = pattern.split('');
-        newPatternArray[index] = '_';
-        setPattern(newPatternArray.join(''));
+        setPatternSlot(index, '_');
       }
     }
     // Arrow keys navigation
     if (e.key === 'ArrowLeft' && index > 0) {
-      if (index - 1 >= 2) {
+      if (index - 1 >= lockedCount) {
         slotRefs.current[index - 1]?.focus();
       }
     }
-    if (e.key === 'ArrowRight' && index < 9) {
+    if (e.key === 'ArrowRight' && index < localLength - 1) {
       slotRefs.current[index + 1]?.focus();
     }
   };
 
+  const updateConstraint = <K extends keyof GenerationConstraints>(key: K, value: GenerationConstraints[K]) => {
+    setCustomConstraints({ ...activeConstraints, [key]: value });
+  };
+
+  const handleForbiddenChange = (value: string) => {
+    setForbiddenInput(value);
+    updateConstraint('forbiddenSubstrings', value.split(/[\s,،]+/).filter(Boolean));
+  };
+
+  // Moving the slider re-applies the preset and drops manual edits
+  const handleDensityChange = (value: number) => {
+    setRepetitionDensity(value);
+    setCustomConstraints(null);
+    setForbiddenInput('');
+  };
+
+  // Switching country resets the pattern to that profile's layout
+  const handleProfileChange = (id: string) => {
+    const nextProfile = getProfile(id);
+    setProfileId(nextProfile.id);
+    setMobilePrefix(nextProfile.mobilePrefixes[0]);
+    setPattern(createDefaultPattern(nextProfile));
+  };
+
+  // Switching operator prefix keeps the subscriber slots the user already filled
+  const handleMobilePrefixChange = (prefix: string) => {
+    setMobilePrefix(prefix);
+    setPattern(getLockedPrefix(profile, prefix) + patternTokens.slice(lockedCount).join(''));
+  };
+
+  // Replaces the pattern with a test range followed by free slots
+  const applyTestRange = (range: string) => {
+    const prefix = detectMobilePrefix(profile, range);
+    if (prefix) setMobilePrefix(prefix);
+    setPattern(range + '_'.repeat(Math.max(0, localLength - range.length)));
+  };
+
   const handleCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     
@@ -192,16 +1022,25 @@ const App: React.FC = () => {
   };
 
   const validateInputs = (): boolean => {
-    const options: GenerationOptions | undefined = showAdvanced ? {
-      repetitionDensity
-    } : undefined;
+    if (showAdvanced && seedInput.trim() && parseSeed(seedInput) === null) {
+      setError("قيمة البذرة غير صحيحة. يجب أن تكون رقماً صحيحاً بين 0 و 4294967295.");
+      return false;
+    }
 
-    const patternError = validatePattern(pattern, options);
+    const patternError = validatePattern(pattern, generationOptions);
     if (patternError) {
       setError(patternError);
       return false;
     }
 
+    if (safeMode) {
+      const safetyError = validateTestRanges(customTestRanges, profile) ?? validateSafePattern(pattern, testRanges, profile);
+      if (safetyError) {
+        setError(safetyError);
+        return false;
+      }
+    }
+
     const countNum = Number(count);
     if (countNum <= 0 || countNum > 10000) {
       setError("العدد يجب أن يكون بين 1 و 10000.");
@@ -212,189 +1051,1123 @@ const App: React.FC = () => {
       setError("يرجى إدخال اسم لتمييز جهات الاتصال.");
       return false;
     }
+
+    const templateErrors = [
+      ['قالب الاسم', nameTemplate],
+      ['قالب ORG', orgTemplate],
+      ['قالب NOTE', noteTemplate]
+    ].map(([label, template]) => {
+      const templateError = validateTemplate(template);
+      return templateError ? `${label}: ${templateError}` : null;
+    });
+    const templateError = templateErrors.find(Boolean);
+    if (templateError) {
+      setError(templateError);
+      return false;
+    }
     
     return true;
   };
 
-  const startGeneration = (mode: 'preview' | 'save') => {
-    if (!validateInputs()) return;
-    setIsGenerating(true);
-    setError(null);
-    setSuccessMsg(null);
-
-    const options: GenerationOptions | undefined = showAdvanced ? {
-      repetitionDensity
-    } : undefined;
-
-    const config: GenerationConfig = {
-      pattern,
-      count: Number(count),
-      contactNamePrefix
-    };
-
-    // Use timeout to allow UI to show loading state
-    setTimeout(() => {
-      try {
-        // Create a set of existing numbers to prevent duplication
-        const existingNumbersSet = new Set<string>(generatedContacts.map(c => c.number));
-        
-        // Generate NEW numbers only
-        const newContacts = generatePhoneNumbers(config, options, existingNumbersSet);
-        
-        if (newContacts.length === 0) {
-          setError("لم يتم توليد أرقام جديدة. قد تكون جميع الاحتمالات لهذا النمط مستخدمة بالفعل في القائمة الحالية.");
-          setIsGenerating(false);
-          return;
-        }
-
-        // Combine existing and new contacts
-        const combinedContacts = [...generatedContacts, ...newContacts];
+  // Stamps a finished (or kept partial) worker result as a new batch and adds it to the list
+  const addGeneratedBatch = (
+    result: GenerationResult,
+    config: GenerationConfig,
+    options: GenerationOptions,
+    mode: 'preview' | 'save',
+    isPartial: boolean
+  ) => {
+    // Give the new numbers permanent serials and names that continue after the existing list
+    const batchId = createBatchId();
+    const newContacts = stampNewContacts(result.contacts, {
+      firstSerial: nextSerial,
+      batchId,
+      batch: getNextBatchNumber(batches),
+      nameTemplate,
+      naming
+    });
+
+    // Requested vs produced, and what held the run back when it fell short
+    const summary = isPartial
+      ? `دفعة جزئية: ${newContacts.length} من أصل ${config.count} مطلوب.`
+      : describeGenerationResult(result);
+
+    // Combine existing and new contacts, sorted by number (Ascending); names stay as they are
+    const combinedContacts = sortByNumber([...generatedContacts, ...newContacts]);
+
+    // Keep the batch boundary so it can be re-exported or rolled back later
+    const batch = createBatchRecord(batchId, batches, newContacts, {
+      source: 'generated',
+      config,
+      options,
+      seed: options.seed ?? null,
+      exported: mode === 'save'
+    });
+    const nextBatches = [...batches, batch];
+    const listChange = { batches: nextBatches, nextSerial: nextSerial + newContacts.length };
+    setVerification({
+      title: `فحص الدفعة #${batch.number}`,
+      report: verifyContacts(newContacts, config.pattern, options),
+      inList: true
+    });
+
+    if (mode === 'preview') {
+      commitListChange(`إضافة الدفعة #${batch.number}`, { ...listChange, contacts: combinedContacts });
+      setSuccessMsg(`تم إضافة ${newContacts.length} رقم جديد إلى القائمة. ${summary}`);
+      setViewMode('preview');
+    } else {
+      // Generate VCF ONLY for the NEWLY generated/saved batch? 
+      // Usually 'Save' implies saving the current session results. 
+      // To be safe, we save the *new* ones, or all unsaved?
+      // Let's save the *newly generated* batch specifically as per standard UX, 
+      // or all 'unsaved' ones.
+      
+      // Implementation: We download the *New* ones only to avoid re-saving duplicates to phone
+      // But we update the state of ALL to saved?
+      // Let's download the 'newContacts' batch.
+      
+      exportContacts(newContacts, `batch_${batch.number}`, nextBatches);
+      
+      // Mark the new ones as saved in the main list
+      const finalContacts = combinedContacts.map(c => {
+        // If it was in the new batch, mark saved. If it was already saved, keep it.
+        const isNew = newContacts.some(nc => nc.number === c.number);
+        if (isNew) return { ...c, isSaved: true };
+        return c;
+      });
+      
+      commitListChange(`توليد وحفظ الدفعة #${batch.number}`, { ...listChange, contacts: finalContacts });
+      
+      setSuccessMsg(`تم توليد وحفظ ${newContacts.length} رقم جديد. ${summary}`);
+      setViewMode('preview');
+    }
+  };
+
+  const startGeneration = (mode: 'preview' | 'save') => {
+    if (!validateInputs()) return;
+    setIsGenerating(true);
+    setIsCancellingGeneration(false);
+    setGenerationProgress(null);
+    setError(null);
+    setSuccessMsg(null);
+
+    // Resolve the seed up-front so it can be shown and reused to reproduce this batch
+    const seed = (showAdvanced && seedInput.trim()) ? parseSeed(seedInput)! : createRandomSeed();
+    const options: GenerationOptions = { ...generationOptions, seed };
+
+    const config: GenerationConfig = {
+      pattern,
+      count: Number(count),
+      contactNamePrefix
+    };
+
+    // Generate NEW numbers only (existingNumbers prevents duplication), off the main thread
+    const task = runGenerationInWorker(config, options, existingNumbers, setGenerationProgress);
+    generationTaskRef.current = task;
+
+    task.result
+      .then(outcome => {
+        setLastSeed(seed);
+
+        const { result } = outcome;
+        if (result.contacts.length === 0) {
+          setError(outcome.cancelled
+            ? "تم إيقاف التوليد قبل قبول أي رقم."
+            : `لم يتم توليد أرقام جديدة. ${describeGenerationResult(result)}`);
+          return;
+        }
+
+        if (!outcome.cancelled) {
+          addGeneratedBatch(result, config, options, mode, false);
+          return;
+        }
+
+        // A stopped run still produced valid numbers; let the user decide whether they become a batch
+        setConfirmRequest({
+          title: 'تم إيقاف التوليد',
+          message: `تم قبول ${result.contacts.length} من أصل ${config.count} رقم قبل الإيقاف.\n\nهل تريد الاحتفاظ بهذه الدفعة الجزئية أم تجاهلها؟`,
+          confirmLabel: 'الاحتفاظ بها',
+          cancelLabel: 'تجاهل',
+          onConfirm: () => addGeneratedBatch(result, config, options, mode, true)
+        });
+      })
+      .catch((err: unknown) => {
+        setError((err instanceof Error && err.message) || "حدث خطأ غير متوقع أثناء التوليد.");
+      })
+      .finally(() => {
+        generationTaskRef.current = null;
+        setIsGenerating(false);
+        setGenerationProgress(null);
+      });
+  };
+
+  const cancelGeneration = () => {
+    if (!generationTaskRef.current) return;
+    setIsCancellingGeneration(true);
+    generationTaskRef.current.cancel();
+  };
+
+  const saveCurrentList = () => {
+    try {
+      // Save all contacts in list
+      if (generatedContacts.length === 0) return;
+      exportContacts(generatedContacts, 'full');
+      
+      // Update state to mark these contacts (and the batches in the list) as saved
+      const exportedBatchIds = new Set(generatedContacts.map(c => c.batchId));
+      commitListChange('حفظ القائمة', {
+        contacts: generatedContacts.map(c => ({ ...c, isSaved: true })),
+        batches: batches.map(b => (exportedBatchIds.has(b.id) ? { ...b, exported: true } : b))
+      });
+      
+      setSuccessMsg(`تم حفظ ملف جهات الاتصال (${generatedContacts.length} رقم).`);
+    } catch {
+      setError("فشل في حفظ الملف.");
+    }
+  };
+
+  const handleClearAppList = () => {
+    if (generatedContacts.length === 0) return;
+    
+    setConfirmRequest({
+      title: 'مسح القائمة',
+      message: `هل أنت متأكد من مسح القائمة بالكامل من التطبيق؟ سيُحذف سجل الدفعات معها.\n\nلن يؤثر هذا على جهات الاتصال المحفوظة في هاتفك.`,
+      confirmLabel: 'مسح',
+      onConfirm: () => {
+        // The batch history goes with its contacts; undo brings both back
+        commitListChange('مسح القائمة', { contacts: [], batches: [] }, true);
+        setViewMode('form');
+        setSuccessMsg("تم تصفية القائمة من التطبيق.");
+        setError(null);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+      }
+    });
+  };
+
+  const handleResetSavedStatus = () => {
+    // This function simulates "Deleting from phone" by removing the "Saved" indicator
+    // It keeps the numbers in the app, but treats them as if they are not on the phone anymore.
+    if (generatedContacts.length === 0) return;
+    
+    setConfirmRequest({
+      title: 'إلغاء حالة الحفظ',
+      message: `هل تريد إلغاء حالة "محفوظ" لجميع الأرقام؟\n\nسيتم اعتبار الأرقام غير موجودة في الهاتف، ولكن ستبقى في قائمة التطبيق.`,
+      confirmLabel: 'إلغاء الحفظ',
+      onConfirm: () => {
+        commitListChange('إلغاء حالة الحفظ', { contacts: generatedContacts.map(c => ({ ...c, isSaved: false })) }, true);
+        setSuccessMsg("تم إعادة تعيين الحالة. جميع الأرقام تعتبر الآن غير محفوظة.");
+      }
+    });
+  }
+
+  const handleDeleteUnsaved = () => {
+    const unsavedCount = generatedContacts.filter(c => !c.isSaved).length;
+    
+    if (unsavedCount === 0) {
+      if (generatedContacts.length > 0) {
+        setError("جميع الأرقام الموجودة تم حفظها مسبقاً.");
+        setTimeout(() => setError(null), 3000);
+      } else {
+        setError("القائمة فارغة.");
+      }
+      return;
+    }
+
+    setConfirmRequest({
+      title: 'حذف غير المحفوظة',
+      message: `هل أنت متأكد من حذف الأرقام غير المحفوظة فقط (${unsavedCount} رقم)؟`,
+      confirmLabel: 'حذف',
+      onConfirm: () => {
+        // Remaining contacts keep their serials and names
+        const remainingContacts = generatedContacts.filter(c => c.isSaved);
+
+        commitListChange(`حذف ${unsavedCount} رقم غير محفوظ`, { contacts: remainingContacts }, true);
+        
+        if (remainingContacts.length === 0) {
+          setViewMode('form');
+          setSuccessMsg("تم حذف الأرقام غير المحفوظة.");
+        } else {
+          setSuccessMsg(`تم حذف ${unsavedCount} رقم غير محفوظ.`);
+        }
+        
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+      }
+    });
+  };
+
+  const handleReExportBatch = (batch: BatchRecord) => {
+    const batchContacts = getBatchContacts(generatedContacts, batch.id);
+    if (batchContacts.length === 0) {
+      setError(`لا توجد أرقام من الدفعة #${batch.number} في القائمة الحالية.`);
+      return;
+    }
+    try {
+      exportContacts(batchContacts, `batch_${batch.number}`);
+
+      commitListChange(`تصدير الدفعة #${batch.number}`, {
+        contacts: generatedContacts.map(c => (c.batchId === batch.id ? { ...c, isSaved: true } : c)),
+        batches: batches.map(b => (b.id === batch.id ? { ...b, exported: true } : b))
+      });
+      setSuccessMsg(`تم تصدير الدفعة #${batch.number} (${batchContacts.length} رقم).`);
+    } catch {
+      setError("فشل في حفظ الملف.");
+    }
+  };
+
+  // Marks every contact of a batch saved or unsaved at once
+  const handleSetBatchSaved = (batch: BatchRecord, isSaved: boolean) => {
+    commitListChange(
+      isSaved ? `تعليم الدفعة #${batch.number} كمحفوظة` : `إلغاء حفظ الدفعة #${batch.number}`,
+      { contacts: generatedContacts.map(c => (c.batchId === batch.id ? { ...c, isSaved } : c)) },
+      !isSaved
+    );
+    setSuccessMsg(isSaved
+      ? `تم تعليم الدفعة #${batch.number} كمحفوظة.`
+      : `تم إلغاء حالة الحفظ للدفعة #${batch.number}.`);
+  };
+
+  // Rolls back one generation run: its history entry and every contact it added
+  const handleDeleteBatch = (batch: BatchRecord) => {
+    const batchCount = getBatchContacts(generatedContacts, batch.id).length;
+
+    setConfirmRequest({
+      title: `حذف الدفعة #${batch.number}`,
+      message: `هل أنت متأكد من حذف الدفعة #${batch.number} مع أرقامها (${batchCount} رقم)؟`,
+      confirmLabel: 'حذف',
+      onConfirm: () => {
+        const remainingContacts = generatedContacts.filter(c => c.batchId !== batch.id);
+        commitListChange(`حذف الدفعة #${batch.number}`, {
+          contacts: remainingContacts,
+          batches: batches.filter(b => b.id !== batch.id)
+        }, true);
+        setSuccessMsg(`تم حذف الدفعة #${batch.number} (${batchCount} رقم).`);
+        if (remainingContacts.length === 0) setViewMode('form');
+      }
+    });
+  };
+
+  const handleToggleSelect = (contact: GeneratedContact, extendRange: boolean) => {
+    const next = new Set(selectedIds);
+    const select = !selectedIds.has(contact.id);
+    const ids = filteredContacts.map((c: GeneratedContact) => c.id);
+    const anchorIndex = selectionAnchorId ? ids.indexOf(selectionAnchorId) : -1;
+    const targetIndex = ids.indexOf(contact.id);
+
+    if ((extendRange || isRangeMode) && anchorIndex !== -1 && targetIndex !== -1) {
+      // The whole range takes the new state of the clicked row
+      const [from, to] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+      for (let i = from; i <= to; i++) {
+        if (select) next.add(ids[i]); else next.delete(ids[i]);
+      }
+      setIsRangeMode(false);
+    } else if (select) {
+      next.add(contact.id);
+    } else {
+      next.delete(contact.id);
+    }
+    setSelectedIds(next);
+    setSelectionAnchorId(contact.id);
+  };
+
+  // Selects (or unselects) every contact that passes the current filters
+  const handleSelectAllFiltered = () => {
+    const next = new Set(selectedIds);
+    filteredContacts.forEach((c: GeneratedContact) => (areAllFilteredSelected ? next.delete(c.id) : next.add(c.id)));
+    setSelectedIds(next);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectionAnchorId(null);
+    setIsRangeMode(false);
+  };
+
+  const handleExportSelected = () => {
+    if (selectedContacts.length === 0) return;
+    try {
+      exportContacts(selectedContacts, 'selected');
+
+      commitListChange(`تصدير ${selectedContacts.length} رقم محدد`, {
+        contacts: generatedContacts.map(c => (selectedIds.has(c.id) ? { ...c, isSaved: true } : c))
+      });
+      setSuccessMsg(`تم حفظ ملف بالأرقام المحددة (${selectedContacts.length} رقم).`);
+    } catch {
+      setError("فشل في حفظ الملف.");
+    }
+  };
+
+  const handleCopySelected = () => {
+    if (selectedContacts.length === 0) return;
+    const numbers = selectedContacts.map(c => formatContactNumber(c, numberFormat, profileId)).join('\n');
+    navigator.clipboard.writeText(numbers).then(() => {
+      setSuccessMsg(`تم نسخ ${selectedContacts.length} رقم محدد إلى الحافظة.`);
+      setTimeout(() => setSuccessMsg(null), 3000);
+    }).catch(() => {
+      setError("فشل نسخ الأرقام.");
+    });
+  };
+
+  const handleDeleteSelected = () => {
+    if (selectedContacts.length === 0) return;
+    const selectedCount = selectedContacts.length;
+
+    setConfirmRequest({
+      title: 'حذف المحدد',
+      message: `هل أنت متأكد من حذف الأرقام المحددة (${selectedCount} رقم) من التطبيق؟`,
+      confirmLabel: 'حذف',
+      onConfirm: () => {
+        const remainingContacts = generatedContacts.filter(c => !selectedIds.has(c.id));
+        commitListChange(`حذف ${selectedCount} رقم محدد`, { contacts: remainingContacts }, true);
+        clearSelection();
+        setSuccessMsg(`تم حذف ${selectedCount} رقم.`);
+        if (remainingContacts.length === 0) setViewMode('form');
+      }
+    });
+  };
+
+  // Marks the selection saved, or unsaved when all of it is saved already
+  const handleToggleSavedSelected = () => {
+    if (selectedContacts.length === 0) return;
+    const isSaved = !selectedContacts.every(c => c.isSaved);
+    commitListChange(
+      isSaved ? `تعليم ${selectedContacts.length} رقم كمحفوظ` : `إلغاء حفظ ${selectedContacts.length} رقم`,
+      { contacts: generatedContacts.map(c => (selectedIds.has(c.id) ? { ...c, isSaved } : c)) },
+      !isSaved
+    );
+  };
+
+  const handleRenameSelected = () => {
+    if (selectedContacts.length === 0) return;
+    if (nameTemplateError) {
+      setError(`قالب الاسم: ${nameTemplateError}`);
+      return;
+    }
+
+    setConfirmRequest({
+      title: 'إعادة تسمية المحدد',
+      message: `سيتم تغيير أسماء ${selectedContacts.length} رقم حسب القالب الحالي "${nameTemplate}" مع الاحتفاظ بأرقامها التسلسلية.\n\nلن تطابق الأسماء الجديدة ما حُفظ مسبقاً في الهاتف.`,
+      confirmLabel: 'إعادة التسمية',
+      onConfirm: () => {
+        commitListChange(`إعادة تسمية ${selectedContacts.length} رقم`, {
+          contacts: renameContacts(generatedContacts, selectedIds, nameTemplate, naming, batchNumbers)
+        }, true);
+      }
+    });
+  };
+
+  const renderSelectionBar = () => (
+    <div className="bg-white p-3 rounded-xl shadow-sm border border-slate-100 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={handleSelectAllFiltered}
+          className="flex items-center gap-2 text-sm font-bold text-slate-700 hover:text-emerald-600 transition"
+        >
+          {areAllFilteredSelected ? <CheckSquare className="w-5 h-5 text-emerald-600" /> : <Square className="w-5 h-5" />}
+          تحديد الكل ({filteredContacts.length})
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setIsRangeMode(!isRangeMode)}
+            className={`flex items-center gap-1 text-xs font-bold px-2 py-1 rounded-lg transition ${
+              isRangeMode ? 'bg-emerald-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+            }`}
+            title="اضغط على رقم لتحديد كل ما بينه وبين آخر رقم تم تحديده (أو استخدم Shift)"
+          >
+            <MoveVertical className="w-4 h-4" />
+            نطاق
+          </button>
+          {selectedContacts.length > 0 && (
+            <button type="button" onClick={clearSelection} className="text-xs text-slate-500 hover:text-slate-700">
+              إلغاء التحديد ({selectedContacts.length})
+            </button>
+          )}
+        </div>
+      </div>
+
+      {selectedContacts.length > 0 && (
+        <div className="grid grid-cols-5 gap-2">
+          <button type="button" onClick={handleExportSelected} className="flex flex-col items-center gap-1 p-2 rounded-lg bg-emerald-50 text-emerald-700 hover:bg-emerald-100 transition">
+            <Download className="w-4 h-4" />
+            <span className="text-[10px] font-bold">تصدير</span>
+          </button>
+          <button type="button" onClick={handleCopySelected} className="flex flex-col items-center gap-1 p-2 rounded-lg bg-blue-50 text-blue-600 hover:bg-blue-100 transition">
+            <Files className="w-4 h-4" />
+            <span className="text-[10px] font-bold">نسخ</span>
+          </button>
+          <button type="button" onClick={handleToggleSavedSelected} className="flex flex-col items-center gap-1 p-2 rounded-lg bg-orange-50 text-orange-600 hover:bg-orange-100 transition">
+            <CheckCircle2 className="w-4 h-4" />
+            <span className="text-[10px] font-bold">{selectedContacts.every(c => c.isSaved) ? 'غير محفوظ' : 'محفوظ'}</span>
+          </button>
+          <button type="button" onClick={handleRenameSelected} className="flex flex-col items-center gap-1 p-2 rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 transition">
+            <Tag className="w-4 h-4" />
+            <span className="text-[10px] font-bold">تسمية</span>
+          </button>
+          <button type="button" onClick={handleDeleteSelected} className="flex flex-col items-center gap-1 p-2 rounded-lg bg-red-50 text-red-600 hover:bg-red-100 transition">
+            <Trash2 className="w-4 h-4" />
+            <span className="text-[10px] font-bold">حذف</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  const handleStartEdit = (contact: GeneratedContact) => {
+    setEditingId(contact.id);
+    setEditName(contact.name);
+    setEditNumber(contact.number);
+  };
+
+  const handleSaveEdit = (contact: GeneratedContact) => {
+    const contactProfile = getProfile(contact.profileId ?? profileId);
+    const number = toLocalNumber(editNumber, contactProfile);
+    const name = editName.trim();
+
+    if (!name) {
+      setError("يرجى إدخال اسم لجهة الاتصال.");
+      return;
+    }
+    if (number !== contact.number) {
+      // The contact's own number is not a duplicate of itself
+      const others = new Set<string>(existingNumbers);
+      others.delete(contact.number);
+      const numberError = validateContactNumber(number, { ...generationOptions, profileId: contactProfile.id }, others);
+      if (numberError) {
+        setError(numberError);
+        return;
+      }
+    }
+
+    setEditingId(null);
+    if (name === contact.name && number === contact.number) return;
+
+    // A changed contact no longer matches the copy on the phone
+    const edited: GeneratedContact = {
+      ...contact,
+      name,
+      number,
+      isSaved: false,
+      source: number !== contact.number ? 'manual' : contact.source
+    };
+    commitListChange(`تعديل ${contact.id}`, {
+      contacts: sortByNumber(generatedContacts.map(c => (c.id === contact.id ? edited : c)))
+    });
+    setSuccessMsg(`تم تعديل ${contact.id}. أصبح غير محفوظ حتى يتم تصديره من جديد.`);
+  };
+
+  const handleAddManual = () => {
+    const number = toLocalNumber(manualNumber, profile);
+    const numberError = validateContactNumber(number, generationOptions, existingNumbers);
+    if (numberError) {
+      setError(numberError);
+      return;
+    }
+    if (!manualName.trim() && nameTemplateError) {
+      setError(`قالب الاسم: ${nameTemplateError}`);
+      return;
+    }
+
+    // Hand-entered contacts belong to no batch; an empty name falls back to the template
+    const [contact] = stampNewContacts(
+      [{ id: number, number, name: manualName.trim(), isSaved: false, source: 'manual', profileId }],
+      { firstSerial: nextSerial, batch: 0, nameTemplate, naming, keepNames: true }
+    );
+    commitListChange(`إضافة ${number} يدوياً`, {
+      contacts: sortByNumber([...generatedContacts, contact]),
+      nextSerial: nextSerial + 1
+    });
+    setManualNumber('');
+    setManualName('');
+    setSuccessMsg(`تمت إضافة ${number} باسم "${contact.name}".`);
+  };
+
+  const renderManualAdd = () => (
+    <CollapsibleCard
+      title="إضافة رقم يدوياً"
+      icon={<UserPlus className="w-4 h-4" />}
+      isOpen={showManualAdd}
+      onToggle={() => setShowManualAdd(!showManualAdd)}
+    >
+      <div className="space-y-2">
+        <input
+          type="tel"
+          value={manualNumber}
+          onChange={(e) => setManualNumber(e.target.value)}
+          dir="ltr"
+          className="w-full font-mono text-center bg-white border-2 border-slate-200 rounded-xl py-2 focus:border-emerald-500 outline-none"
+          placeholder={`${lockedPrefix}${'X'.repeat(localLength - lockedCount)} / +${profile.countryCode}...`}
+        />
+        <input
+          type="text"
+          value={manualName}
+          onChange={(e) => setManualName(e.target.value)}
+          className="w-full text-center bg-white border-2 border-slate-200 rounded-xl py-2 focus:border-emerald-500 outline-none"
+          placeholder="الاسم (اختياري، يُستخدم القالب إن تُرك فارغاً)"
+        />
+        <button
+          type="button"
+          onClick={handleAddManual}
+          disabled={!manualNumber.trim()}
+          className="w-full bg-emerald-600 text-white font-bold py-2 rounded-xl hover:bg-emerald-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          إضافة
+        </button>
+      </div>
+    </CollapsibleCard>
+  );
+
+  // Same fixed height as a normal row so the windowed list keeps its layout
+  const renderEditRow = (contact: GeneratedContact) => (
+    <div className="h-[76px] px-3 rounded-xl shadow-sm border border-emerald-300 bg-white flex items-center gap-2">
+      <div className="flex-1 min-w-0 space-y-1">
+        <input
+          type="tel"
+          value={editNumber}
+          onChange={(e) => setEditNumber(e.target.value)}
+          dir="ltr"
+          className="w-full font-mono font-bold text-sm bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 focus:border-emerald-500 outline-none"
+          autoFocus
+        />
+        <input
+          type="text"
+          value={editName}
+          onChange={(e) => setEditName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSaveEdit(contact);
+            if (e.key === 'Escape') setEditingId(null);
+          }}
+          className="w-full text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 focus:border-emerald-500 outline-none"
+        />
+      </div>
+      <button
+        type="button"
+        onClick={() => handleSaveEdit(contact)}
+        className="bg-emerald-600 text-white p-2 rounded-lg hover:bg-emerald-700 transition"
+        title="حفظ التعديل"
+      >
+        <Check className="w-5 h-5" />
+      </button>
+      <button
+        type="button"
+        onClick={() => setEditingId(null)}
+        className="bg-slate-100 text-slate-600 p-2 rounded-lg hover:bg-slate-200 transition"
+        title="إلغاء"
+      >
+        <X className="w-5 h-5" />
+      </button>
+    </div>
+  );
+
+  const renderContactRow = (contact: GeneratedContact) => {
+    if (editingId === contact.id) return renderEditRow(contact);
+    const canOpenLinks = isDeepLinkAllowed(contact, safeMode, deepLinkWhitelist);
+    return (
+      <div
+        className={`h-[76px] px-4 rounded-xl shadow-sm border flex items-center justify-between transition-colors ${
+          contact.isSaved 
+            ? 'bg-emerald-50 border-emerald-200/60' 
+            : 'bg-white border-slate-100'
+        }`}
+      >
+        <div className="flex items-center gap-3 min-w-0">
+          <button
+            type="button"
+            onClick={(e) => handleToggleSelect(contact, e.shiftKey)}
+            className="shrink-0 text-slate-400 hover:text-emerald-600 transition"
+            title="تحديد"
+            aria-pressed={selectedIds.has(contact.id)}
+          >
+            {selectedIds.has(contact.id) ? <CheckSquare className="w-5 h-5 text-emerald-600" /> : <Square className="w-5 h-5" />}
+          </button>
+          <div className={`w-10 h-10 shrink-0 rounded-full flex items-center justify-center font-mono text-xs font-bold ${
+            contact.isSaved 
+              ? 'bg-white text-emerald-600 shadow-sm border border-emerald-100' 
+              : 'bg-slate-100 text-slate-500'
+          }`}>
+            {contact.id}
+          </div>
+          <div className="min-w-0">
+            <div className={`font-mono font-bold text-lg dir-ltr flex items-center gap-2 ${
+              contact.isSaved ? 'text-emerald-900' : 'text-slate-700'
+            }`}>
+              {contact.number}
+              {contact.isSaved && (
+                <span title="تم الحفظ" className="animate-fade-in">
+                  <CheckCircle2 className="w-4 h-4 text-emerald-500 fill-emerald-100" />
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-slate-400 flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => handleStartEdit(contact)}
+                className={`font-bold truncate max-w-[8rem] hover:underline ${contact.isSaved ? 'text-emerald-700/70' : ''}`}
+                title="تعديل الاسم أو الرقم"
+              >
+                {contact.name}
+              </button>
+              {contact.source === 'manual' && <span className="text-violet-600 bg-violet-50 px-1.5 py-0.5 rounded-full text-[10px]">يدوي</span>}
+              {contact.source === 'imported' && <span className="text-sky-600 bg-sky-50 px-1.5 py-0.5 rounded-full text-[10px]">مستورد</span>}
+              {!contact.isSaved && <span className="text-amber-600 bg-amber-50 px-2 py-0.5 rounded-full text-[10px]">غير محفوظ</span>}
+              {contact.isSaved && <span className="text-emerald-600 bg-emerald-100 px-2 py-0.5 rounded-full text-[10px]">محفوظ</span>}
+            </div>
+          </div>
+        </div>
+        
+        <div className="flex items-center gap-2">
+          <button 
+            onClick={() => copyToClipboard(formatContactNumber(contact, numberFormat, profileId), contact.id)}
+            className={`p-2 rounded-lg transition-all duration-300 ease-[cubic-bezier(0.34,1.56,0.64,1)] ${
+              copiedId === contact.id 
+                ? 'bg-emerald-100 text-emerald-600 scale-110' 
+                : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+            }`}
+            title="نسخ الرقم"
+          >
+            {copiedId === contact.id ? <Check className="w-6 h-6" /> : <Copy className="w-6 h-6" />}
+          </button>
+          
+          <button 
+            onClick={() => openWhatsApp(contact)}
+            disabled={!canOpenLinks}
+            className="bg-green-50 text-green-600 p-2 rounded-lg hover:bg-green-100 transition disabled:opacity-30 disabled:cursor-not-allowed"
+            title={canOpenLinks ? "فتح واتساب" : DEEP_LINK_BLOCKED_TITLE}
+          >
+            <MessageCircle className="w-6 h-6" />
+          </button>
+
+          <button 
+            onClick={() => openTelegram(contact)}
+            disabled={!canOpenLinks}
+            className="bg-blue-50 text-blue-500 p-2 rounded-lg hover:bg-blue-100 transition disabled:opacity-30 disabled:cursor-not-allowed"
+            title={canOpenLinks ? "فتح تيلجرام" : DEEP_LINK_BLOCKED_TITLE}
+          >
+            <Send className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Moves an included CSV / JSON column one place earlier (-1) or later (+1)
+  const moveExportColumn = (column: ExportColumn, offset: number) => {
+    const index = exportColumns.indexOf(column);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= exportColumns.length) return;
+    const next = [...exportColumns];
+    [next[index], next[target]] = [next[target], next[index]];
+    setExportColumns(next);
+  };
+
+  const toggleExportColumn = (column: ExportColumn) => {
+    setExportColumns(exportColumns.includes(column)
+      ? exportColumns.filter(c => c !== column)
+      : [...exportColumns, column]);
+  };
+
+  // Format picker and per-format options, shared by the form (save mode) and the list view
+  const renderExportSettings = () => {
+    const unusedColumns = (Object.keys(EXPORT_COLUMN_LABELS) as ExportColumn[]).filter(c => !exportColumns.includes(c));
+    return (
+      <>
+        <p className="text-xs font-bold text-slate-600 mb-2">صيغة الملف</p>
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+          className="w-full bg-slate-50 border-2 border-slate-200 rounded-xl py-2 px-3 focus:border-emerald-500 outline-none text-sm font-bold"
+        >
+          {(Object.keys(EXPORTERS) as ExportFormat[]).map(format => (
+            <option key={format} value={format}>{EXPORTERS[format].label} (.{EXPORTERS[format].extension})</option>
+          ))}
+        </select>
+
+        <p className="text-xs font-bold text-slate-600 mt-3 mb-2">صيغة الأرقام</p>
+        <SegmentedToggle options={numberFormatOptions} value={numberFormat} onChange={setNumberFormat} />
+
+        {exportFormat === 'vcf' && (
+          <>
+            <p className="text-xs font-bold text-slate-600 mt-3 mb-2">إصدار vCard</p>
+            <SegmentedToggle options={VCARD_VERSION_OPTIONS} value={vcardVersion} onChange={setVcardVersion} />
+            <p className="text-[11px] text-slate-500 mt-1 text-center">
+              الإصدار 3.0 هو الأكثر توافقاً. استخدم 2.1 للهواتف القديمة.
+            </p>
+          </>
+        )}
+
+        {exportFormat === 'csv' && (
+          <>
+            <p className="text-xs font-bold text-slate-600 mt-3 mb-2">الفاصل</p>
+            <SegmentedToggle options={CSV_DELIMITER_OPTIONS} value={csvDelimiter} onChange={setCsvDelimiter} />
+          </>
+        )}
+
+        <div className="mt-3">
+          <ConstraintInput
+            label="تقسيم الملف (جهة لكل ملف)"
+            hint="القوائم الأكبر تُصدَّر كملف ZIP من أجزاء مرقّمة. اتركه فارغاً لملف واحد."
+            value={exportChunkSize}
+            onChange={(value) => setExportChunkSize(value !== null && value >= 1 ? Math.floor(value) : null)}
+          />
+        </div>
+
+        {(exportFormat === 'csv' || exportFormat === 'json') && (
+          <>
+            <p className="text-xs font-bold text-slate-600 mt-3 mb-2">الأعمدة وترتيبها</p>
+            <div className="space-y-1">
+              {exportColumns.map((column, index) => (
+                <div key={column} className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg px-2 py-1">
+                  <span className="flex-1 text-sm text-slate-700">{index + 1}. {EXPORT_COLUMN_LABELS[column]}</span>
+                  <button type="button" onClick={() => moveExportColumn(column, -1)} disabled={index === 0} className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30" title="تقديم">
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button type="button" onClick={() => moveExportColumn(column, 1)} disabled={index === exportColumns.length - 1} className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30" title="تأخير">
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button type="button" onClick={() => toggleExportColumn(column)} disabled={exportColumns.length === 1} className="p-1 text-red-400 hover:text-red-600 disabled:opacity-30" title="إزالة">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {unusedColumns.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {unusedColumns.map(column => (
+                  <button
+                    key={column}
+                    type="button"
+                    onClick={() => toggleExportColumn(column)}
+                    className="text-xs font-bold px-2 py-1 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 transition"
+                  >
+                    + {EXPORT_COLUMN_LABELS[column]}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </>
+    );
+  };
+
+  const handleVerifyList = () => {
+    const patternError = validatePattern(pattern, generationOptions);
+    if (patternError) {
+      setError(patternError);
+      return;
+    }
+    setVerification({
+      title: 'فحص القائمة كاملة',
+      report: verifyContacts(generatedContacts, pattern, generationOptions),
+      inList: true
+    });
+  };
+
+  const handleSelectViolations = () => {
+    if (!verification) return;
+    const listIds = new Set(generatedContacts.map(c => c.id));
+    setSelectedIds(new Set(verification.report.violations.map(v => v.contactId).filter(id => listIds.has(id))));
+    setSelectionAnchorId(null);
+  };
+
+  // After-the-fact check of the last batch / import, or of the whole list on demand
+  const renderVerification = () => {
+    const report = verification?.report;
+    const violatingCount = report ? new Set(report.violations.map(v => v.contactId)).size : 0;
+    return (
+      <div className="bg-white p-3 rounded-xl shadow-sm border border-slate-100 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs font-bold text-slate-600">{verification ? verification.title : 'التحقق من القواعد'}</p>
+          <button
+            type="button"
+            onClick={handleVerifyList}
+            className="text-xs font-bold px-2 py-1 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 transition"
+          >
+            فحص القائمة
+          </button>
+        </div>
+        {report && (report.violations.length === 0 ? (
+          <p className="text-xs text-emerald-700 bg-emerald-50 rounded-lg p-2">
+            تم فحص {report.checked} رقم: لا توجد مخالفات للنمط أو القيود.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-amber-800 bg-amber-50 rounded-lg p-2">
+              تم فحص {report.checked} رقم: {violatingCount} رقم يخالف القواعد (يشمل الفحص الأرقام الثابتة في النمط).
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(VIOLATION_LABELS) as ViolationKind[])
+                .filter(kind => report.counts[kind] > 0)
+                .map(kind => (
+                  <span key={kind} className="text-[11px] font-bold px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">
+                    {VIOLATION_LABELS[kind]}: {report.counts[kind]}
+                  </span>
+                ))}
+            </div>
+            <ul className="text-[11px] text-slate-600 space-y-0.5 max-h-40 overflow-y-auto">
+              {report.violations.slice(0, MAX_LISTED_VIOLATIONS).map((v, index) => (
+                <li key={`${v.contactId}_${v.kind}_${index}`}>
+                  <span className="font-mono" dir="ltr">{v.number}</span> · {v.detail}
+                </li>
+              ))}
+              {report.violations.length > MAX_LISTED_VIOLATIONS && (
+                <li className="text-slate-400">و {report.violations.length - MAX_LISTED_VIOLATIONS} مخالفة أخرى.</li>
+              )}
+            </ul>
+            <div className="flex gap-2">
+              {verification!.inList && (
+                <button
+                  type="button"
+                  onClick={handleSelectViolations}
+                  className="flex-1 text-xs font-bold py-1.5 rounded-lg bg-amber-50 text-amber-700 hover:bg-amber-100 transition"
+                >
+                  تحديد الأرقام المخالفة
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setVerification(null)}
+                className="flex-1 text-xs font-bold py-1.5 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 transition"
+              >
+                إخفاء
+              </button>
+            </div>
+          </>
+        ))}
+      </div>
+    );
+  };
+
+  // Exports newest first; ZIP exports list their chunks so a failed import can be retried per file
+  const renderExportHistory = () => (
+    <CollapsibleCard
+      title={`سجل التصدير (${exportHistory.length})`}
+      icon={<Download className="w-4 h-4" />}
+      isOpen={showExportHistory}
+      onToggle={() => setShowExportHistory(!showExportHistory)}
+    >
+      {exportHistory.length === 0 ? (
+        <p className="text-xs text-slate-500 text-center">لم يتم تصدير أي ملف بعد.</p>
+      ) : (
+        <div className="space-y-2">
+          {[...exportHistory].reverse().map(record => (
+            <div key={`${record.timestamp}_${record.fileName}`} className="border border-slate-100 rounded-lg p-3 bg-slate-50">
+              <p className="text-xs font-bold text-slate-800 break-all" dir="ltr">{record.fileName}</p>
+              <p className="text-[11px] text-slate-500 mt-1">
+                {record.count} رقم · {new Date(record.timestamp).toLocaleString('ar')}
+                {record.chunks && ` · ${record.chunks.length} أجزاء`}
+              </p>
+              {record.chunks && (
+                <div className="space-y-1 mt-2">
+                  {record.chunks.map(chunk => (
+                    <div key={chunk.fileName} className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg px-2 py-1">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-[11px] text-slate-700 truncate" dir="ltr">{chunk.fileName}</p>
+                        <p className="text-[10px] text-slate-500">
+                          من <span className="font-mono">{chunk.firstId}</span> إلى <span className="font-mono">{chunk.lastId}</span> · {chunk.numbers.length} رقم
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleRedownloadChunk(chunk)}
+                        className="p-1.5 rounded-lg bg-emerald-50 text-emerald-600 hover:bg-emerald-100 transition shrink-0"
+                        title="تنزيل هذا الجزء مرة أخرى"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </CollapsibleCard>
+  );
 
-        // Sort combined list logically (Ascending)
-        combinedContacts.sort((a, b) => a.number.localeCompare(b.number));
+  const renderBatchHistory = () => (
+    <CollapsibleCard
+      title={`سجل الدفعات (${batches.length})`}
+      icon={<History className="w-4 h-4" />}
+      isOpen={showBatchHistory}
+      onToggle={() => setShowBatchHistory(!showBatchHistory)}
+    >
+      {batches.length === 0 ? (
+        <p className="text-xs text-slate-500 text-center">لا توجد دفعات بعد.</p>
+      ) : (
+        <div className="space-y-2">
+          {[...batches].reverse().map(batch => {
+            const batchContacts = getBatchContacts(generatedContacts, batch.id);
+            const savedCount = batchContacts.filter(c => c.isSaved).length;
+            return (
+              <div key={batch.id} className="border border-slate-100 rounded-lg p-3 bg-slate-50">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-bold text-sm text-slate-800">#{batch.number}</span>
+                  <span className="text-[11px] text-slate-500">{new Date(batch.timestamp).toLocaleString('ar')}</span>
+                </div>
+                <p className="text-xs text-slate-600 mt-1">
+                  {batch.source === 'imported' ? 'مستوردة' : 'مولّدة'} · {batchContacts.length} من {batch.numbers.length} رقم في القائمة · {savedCount} محفوظ
+                  {batch.exported ? ' · تم تصديرها' : ' · لم تُصدَّر'}
+                </p>
+                {batch.config && (
+                  <p className="text-[11px] text-slate-500 mt-1" dir="ltr">
+                    <span className="font-mono">{batch.config.pattern}</span>
+                    {batch.seed !== null && <> · seed <span className="font-mono">{batch.seed}</span></>}
+                  </p>
+                )}
+                <div className="grid grid-cols-4 gap-2 mt-2">
+                  <button
+                    type="button"
+                    onClick={() => handleReExportBatch(batch)}
+                    className="flex items-center justify-center p-2 rounded-lg bg-emerald-50 text-emerald-600 hover:bg-emerald-100 transition"
+                    title="إعادة التصدير"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSetBatchSaved(batch, true)}
+                    className="flex items-center justify-center p-2 rounded-lg bg-blue-50 text-blue-600 hover:bg-blue-100 transition"
+                    title="تعليم كمحفوظة"
+                  >
+                    <CheckCircle2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleSetBatchSaved(batch, false)}
+                    className="flex items-center justify-center p-2 rounded-lg bg-orange-50 text-orange-600 hover:bg-orange-100 transition"
+                    title="إلغاء حالة الحفظ"
+                  >
+                    <ArchiveRestore className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteBatch(batch)}
+                    className="flex items-center justify-center p-2 rounded-lg bg-red-50 text-red-600 hover:bg-red-100 transition"
+                    title="حذف الدفعة مع أرقامها"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </CollapsibleCard>
+  );
 
-        // Re-index IDs to be sequential based on the sorted list
-        const reIndexedContacts = combinedContacts.map((c, index) => ({
-          ...c,
-          id: (index + 1).toString().padStart(4, '0'),
-          // Update name if it's generic, or keep it if custom (here we regenerate name to keep order)
-          name: `${(index + 1).toString().padStart(4, '0')} ${contactNamePrefix}` 
-        }));
+  // Renumbering is never automatic: names already saved to the phone would stop matching
+  const handleRenumber = () => {
+    if (generatedContacts.length === 0) return;
+    if (nameTemplateError) {
+      setError(`قالب الاسم: ${nameTemplateError}`);
+      return;
+    }
 
-        if (mode === 'preview') {
-          setGeneratedContacts(reIndexedContacts);
-          setSuccessMsg(`تم إضافة ${newContacts.length} رقم جديد إلى القائمة.`);
-          setViewMode('preview');
-        } else {
-          // Generate VCF ONLY for the NEWLY generated/saved batch? 
-          // Usually 'Save' implies saving the current session results. 
-          // To be safe, we save the *new* ones, or all unsaved?
-          // Let's save the *newly generated* batch specifically as per standard UX, 
-          // or all 'unsaved' ones.
-          
-          // Implementation: We download the *New* ones only to avoid re-saving duplicates to phone
-          // But we update the state of ALL to saved?
-          // Let's download the 'newContacts' batch.
-          
-          const vcfData = generateVCF(newContacts);
-          const fileName = `contacts_${contactNamePrefix}_part_${new Date().getTime()}.vcf`;
-          downloadFile(vcfData, fileName);
-          
-          // Mark the new ones as saved in the main list
-          const finalContacts = reIndexedContacts.map(c => {
-            // If it was in the new batch, mark saved. If it was already saved, keep it.
-            const isNew = newContacts.some(nc => nc.number === c.number);
-            if (isNew) return { ...c, isSaved: true };
-            return c;
-          });
-          
-          setGeneratedContacts(finalContacts);
-          
-          setSuccessMsg(`تم توليد وحفظ ${newContacts.length} رقم جديد.`);
-          setViewMode('preview');
-        }
-      } catch (err: any) {
-        setError(err.message || "حدث خطأ غير متوقع أثناء التوليد.");
-      } finally {
-        setIsGenerating(false);
+    setConfirmRequest({
+      title: 'إعادة الترقيم',
+      message: `هل تريد إعادة ترقيم جميع الأرقام (0001، 0002...) حسب ترتيبها؟\n\nستتغير الأسماء حسب القالب الحالي "${nameTemplate}"، ولن تطابق جهات الاتصال المحفوظة مسبقاً في الهاتف.`,
+      confirmLabel: 'إعادة الترقيم',
+      onConfirm: () => {
+        commitListChange('إعادة الترقيم', {
+          contacts: renumberContacts(generatedContacts, nameTemplate, naming, batchNumbers),
+          nextSerial: generatedContacts.length + 1
+        }, true);
+        setSuccessMsg("تمت إعادة ترقيم القائمة.");
       }
-    }, 500);
+    });
   };
 
-  const saveCurrentList = () => {
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be picked again
+    e.target.value = '';
+    if (!file) return;
+
     try {
-      // Save all contacts in list
-      if (generatedContacts.length === 0) return;
-      const vcfData = generateVCF(generatedContacts);
-      const fileName = `contacts_${contactNamePrefix}_full_${new Date().getTime()}.vcf`;
-      downloadFile(vcfData, fileName);
-      
-      // Update state to mark these contacts as saved
-      setGeneratedContacts(prev => prev.map(c => ({ ...c, isSaved: true })));
-      
-      setSuccessMsg(`تم حفظ ملف جهات الاتصال (${generatedContacts.length} رقم).`);
-    } catch (err) {
-      setError("فشل في حفظ الملف.");
-    }
-  };
+      const text = await file.text();
+      const summary = importContactsFile(text, file.name, profile, existingNumbers);
 
-  const handleClearAppList = () => {
-    if (generatedContacts.length === 0) return;
-    
-    setTimeout(() => {
-      const confirmMsg = `هل أنت متأكد من مسح القائمة بالكامل من التطبيق؟\n\nلن يؤثر هذا على جهات الاتصال المحفوظة في هاتفك.`;
-      
-      if (window.confirm(confirmMsg)) {
-        setGeneratedContacts([]);
-        setViewMode('form');
-        setSuccessMsg("تم تصفية القائمة من التطبيق.");
-        setError(null);
-        window.scrollTo({ top: 0, behavior: 'smooth' });
+      if (summary.total === 0) {
+        setError("لم يتم العثور على أي أرقام في الملف. يرجى اختيار ملف VCF أو CSV صالح.");
+        return;
       }
-    }, 50);
-  };
 
-  const handleResetSavedStatus = () => {
-    // This function simulates "Deleting from phone" by removing the "Saved" indicator
-    // It keeps the numbers in the app, but treats them as if they are not on the phone anymore.
-    if (generatedContacts.length === 0) return;
-    
-    setTimeout(() => {
-      const confirmMsg = `هل تريد إلغاء حالة "محفوظ" لجميع الأرقام؟\n\nسيتم اعتبار الأرقام غير موجودة في الهاتف، ولكن ستبقى في قائمة التطبيق.`;
-      
-      if (window.confirm(confirmMsg)) {
-        setGeneratedContacts(prev => prev.map(c => ({ ...c, isSaved: false })));
-        setSuccessMsg("تم إعادة تعيين الحالة. جميع الأرقام تعتبر الآن غير محفوظة.");
+      const newNumbers = summary.entries.map(entry => entry.number);
+      setImportedNumbers(prev => new Set([...prev, ...newNumbers]));
+
+      // Check the imported numbers against the current pattern and constraints
+      if (summary.entries.length > 0 && !validatePattern(pattern, generationOptions)) {
+        setVerification({
+          title: `فحص الملف المستورد (${file.name})`,
+          report: verifyContacts(
+            summary.entries.map(entry => ({ id: entry.number, number: entry.number, name: entry.name ?? '' })),
+            pattern,
+            generationOptions
+          ),
+          inList: false
+        });
       }
-    }, 50);
-  }
 
-  const handleDeleteUnsaved = () => {
-    const unsavedCount = generatedContacts.filter(c => !c.isSaved).length;
-    
-    if (unsavedCount === 0) {
-      if (generatedContacts.length > 0) {
-        setError("جميع الأرقام الموجودة تم حفظها مسبقاً.");
-        setTimeout(() => setError(null), 3000);
-      } else {
-        setError("القائمة فارغة.");
+      if (showImportedInList && summary.entries.length > 0) {
+        const batchId = createBatchId();
+        const importedContacts = stampNewContacts(
+          summary.entries.map(entry => ({
+            id: entry.number,
+            number: entry.number,
+            name: entry.name ?? '',
+            isSaved: true,
+            source: 'imported',
+            profileId
+          })),
+          {
+            firstSerial: nextSerial,
+            batchId,
+            batch: getNextBatchNumber(batches),
+            nameTemplate,
+            naming,
+            keepNames: true
+          }
+        );
+        const batch = createBatchRecord(batchId, batches, importedContacts, {
+          source: 'imported',
+          config: null,
+          options: null,
+          seed: null,
+          exported: true
+        });
+        commitListChange(`استيراد الدفعة #${batch.number}`, {
+          contacts: sortByNumber([...generatedContacts, ...importedContacts]),
+          batches: [...batches, batch],
+          nextSerial: nextSerial + importedContacts.length
+        });
       }
-      return;
+
+      setSuccessMsg(
+        `تمت قراءة ${summary.total} رقم: ${summary.entries.length} جديد، ${summary.duplicates} مكرر، ${summary.malformed} غير صالح.` +
+        (showImportedInList ? ' تمت إضافة الجديد إلى القائمة كمحفوظ.' : ' سيتم تجنبها عند التوليد.')
+      );
+    } catch {
+      setError("فشل في قراءة الملف.");
     }
+  };
 
-    setTimeout(() => {
-      const confirmMsg = `هل أنت متأكد من حذف الأرقام غير المحفوظة فقط (${unsavedCount} رقم)؟`;
-      
-      if (window.confirm(confirmMsg)) {
-        const remainingContacts = generatedContacts.filter(c => c.isSaved);
-        
-        // Re-index remaining
-        const reIndexed = remainingContacts.map((c, idx) => ({
-             ...c,
-             id: (idx + 1).toString().padStart(4, '0'),
-             name: `${(idx + 1).toString().padStart(4, '0')} ${contactNamePrefix}` 
-        }));
-
-        setGeneratedContacts(reIndexed);
-        
-        if (reIndexed.length === 0) {
-          setViewMode('form');
-          setSuccessMsg("تم حذف الأرقام غير المحفوظة.");
-        } else {
-          setSuccessMsg(`تم حذف ${unsavedCount} رقم غير محفوظ.`);
-        }
-        
-        window.scrollTo({ top: 0, behavior: 'smooth' });
-      }
-    }, 50);
+  const handleClearImported = () => {
+    setImportedNumbers(new Set());
+    setSuccessMsg("تم مسح قائمة الأرقام المستوردة المستبعدة.");
   };
 
-  const openWhatsApp = (number: string) => {
-    window.open(`https://wa.me/${number}`, '_blank');
+  // Both services need the international number without the trunk zero
+  const openWhatsApp = (contact: GeneratedContact) => {
+    if (!isDeepLinkAllowed(contact, safeMode, deepLinkWhitelist)) return;
+    window.open(`https://wa.me/${toWhatsAppNumber(contact, profileId)}`, '_blank');
   };
 
-  const openTelegram = (number: string) => {
-    window.open(`https://t.me/+${number}`, '_blank');
+  const openTelegram = (contact: GeneratedContact) => {
+    if (!isDeepLinkAllowed(contact, safeMode, deepLinkWhitelist)) return;
+    window.open(`https://t.me/${toTelegramNumber(contact, profileId)}`, '_blank');
   };
 
   const copyToClipboard = (text: string, id: string) => {
@@ -408,7 +2181,7 @@ const App: React.FC = () => {
 
   const copyAllNumbers = () => {
     if (generatedContacts.length === 0) return;
-    const allNumbers = generatedContacts.map(c => c.number).join('\n');
+    const allNumbers = generatedContacts.map(c => formatContactNumber(c, numberFormat, profileId)).join('\n');
     navigator.clipboard.writeText(allNumbers).then(() => {
       setSuccessMsg("تم نسخ جميع الأرقام إلى الحافظة.");
       setTimeout(() => setSuccessMsg(null), 3000);
@@ -417,6 +2190,41 @@ const App: React.FC = () => {
     });
   };
 
+  // Helper to describe the live capacity under the pattern slots
+  const renderCapacity = () => {
+    if (!capacity) return null;
+
+    const formatCount = (n: number) => n.toLocaleString('en-US');
+    const requested = Number(count) || 0;
+    const isImpossible = requested > capacity.max;
+    const mayFallShort = !isImpossible && requested > capacity.min;
+
+    return (
+      <div className="mt-3 space-y-2">
+        <div className="flex items-center justify-center gap-2 text-xs text-slate-600">
+          <Calculator className="w-3.5 h-3.5 text-slate-400" />
+          <span>الأرقام الممكنة:</span>
+          <span className="font-mono font-bold text-slate-800" dir="ltr">
+            {capacity.exact
+              ? formatCount(capacity.max)
+              : `${formatCount(capacity.min)} – ${formatCount(capacity.max)}`}
+          </span>
+          {!capacity.exact && <span className="text-slate-400">(تقديري)</span>}
+        </div>
+        {isImpossible && (
+          <div className="bg-red-50 text-red-700 text-xs font-medium p-2 rounded-lg text-center">
+            العدد المطلوب ({formatCount(requested)}) أكبر من عدد الأرقام الممكنة لهذا النمط بالقيود الحالية.
+          </div>
+        )}
+        {mayFallShort && (
+          <div className="bg-amber-50 text-amber-700 text-xs font-medium p-2 rounded-lg text-center">
+            العدد المطلوب قريب من الحد الأقصى للنمط، قد لا يتم الوصول إليه بالكامل.
+          </div>
+        )}
+      </div>
+    );
+  };
+
   // Helper to format density label with discrete steps
   const getDensityLabel = (val: number) => {
     const v = Math.round(val * 10) / 10;
@@ -440,12 +2248,15 @@ const App: React.FC = () => {
     return 'bg-red-100 text-red-700';
   }
 
-  // Render the 10-slot pattern input
+  // Render the slot grid for the active profile
   const renderPatternInputs = () => {
     const slots = [];
-    for (let i = 0; i < 10; i++) {
-      const char = pattern[i] || '_';
-      const isFixed = i < 2; // First two digits are fixed (05)
+    // Long national formats (e.g. Egypt, 11 digits) need narrower slots to fit
+    const slotWidth = localLength > 10 ? 'w-7' : 'w-8';
+    for (let i = 0; i < localLength; i++) {
+      const char = patternTokens[i] || '_';
+      const isFixed = i < lockedCount; // Trunk + mobile prefix are fixed (e.g. 05)
+      const isClass = char.startsWith('[');
       
       slots.push(
         <input
@@ -454,15 +2265,19 @@ const App: React.FC = () => {
           type="text"
           lang="en"
           inputMode={isFixed ? undefined : "numeric"}
-          value={char === '_' ? '' : char}
+          value={char === '_' ? '' : describeSlotToken(char)}
           onChange={(e) => handlePatternSlotChange(i, e.target.value)}
           onKeyDown={(e) => handleKeyDown(i, e)}
           disabled={isFixed}
           readOnly={isFixed}
-          className={`w-8 h-12 text-center text-xl font-bold border-2 rounded-lg focus:outline-none transition-colors 
+          title={isClass ? char : undefined}
+          className={`${slotWidth} h-12 text-center font-bold border-2 rounded-lg focus:outline-none transition-colors 
+            ${isClass ? 'text-[9px] leading-tight px-0' : 'text-xl'}
             ${isFixed 
               ? 'border-slate-200 bg-slate-100 text-slate-500 cursor-not-allowed select-none' 
-              : (char !== '_' ? 'border-emerald-500 bg-white text-emerald-700' : 'border-slate-300 bg-slate-50 text-slate-400 placeholder-slate-300')
+              : isClass
+                ? 'border-violet-400 bg-violet-50 text-violet-700'
+                : (char !== '_' ? 'border-emerald-500 bg-white text-emerald-700' : 'border-slate-300 bg-slate-50 text-slate-400 placeholder-slate-300')
             } 
             ${!isFixed && 'focus:border-emerald-600 focus:ring-2 focus:ring-emerald-100'}`}
           placeholder={char} 
@@ -470,7 +2285,7 @@ const App: React.FC = () => {
       );
     }
     return (
-      <div className="flex flex-row justify-center gap-1.5 sm:gap-2" dir="ltr">
+      <div className={`flex flex-row justify-center ${localLength > 10 ? 'gap-1' : 'gap-1.5 sm:gap-2'}`} dir="ltr">
         {slots}
       </div>
     );
@@ -479,6 +2294,31 @@ const App: React.FC = () => {
   return (
     <div className={`min-h-screen bg-slate-50 text-slate-800 ${viewMode === 'preview' ? 'pb-40' : 'pb-10'}`}>
       
+      {/* Confirmation dialog for destructive actions */}
+      {confirmRequest && (
+        <ConfirmDialog request={confirmRequest} onClose={() => setConfirmRequest(null)} />
+      )}
+      {promptRequest && (
+        <PromptDialog request={promptRequest} onClose={() => setPromptRequest(null)} />
+      )}
+
+      {/* Undo snackbar after destructive actions */}
+      {undoSnackbar && (
+        <div className="fixed bottom-4 inset-x-0 z-[80] px-4 animate-fade-in">
+          <div className="max-w-md mx-auto bg-slate-900 text-white rounded-xl shadow-2xl px-4 py-3 flex items-center justify-between gap-3">
+            <span className="text-sm truncate">{undoSnackbar}</span>
+            <button
+              type="button"
+              onClick={handleUndo}
+              className="flex items-center gap-1 text-emerald-400 font-bold text-sm hover:text-emerald-300 transition shrink-0"
+            >
+              <Undo2 className="w-4 h-4" />
+              تراجع
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Loading Overlay */}
       {isGenerating && (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[100] flex items-center justify-center animate-fade-in">
@@ -492,9 +2332,45 @@ const App: React.FC = () => {
                  </div>
               </div>
               <div className="text-center space-y-2">
-                 <h3 className="text-lg font-bold text-white">جاري التوليد...</h3>
+                 <h3 className="text-lg font-bold text-white">{isCancellingGeneration ? 'جاري الإيقاف...' : 'جاري التوليد...'}</h3>
                  <p className="text-slate-400 text-sm">يتم معالجة الأرقام، يرجى الانتظار.</p>
               </div>
+              {generationProgress && (
+                <div className="w-full space-y-3">
+                  <div className="flex justify-between text-xs text-slate-300 font-mono" dir="ltr">
+                    <span>{generationProgress.accepted} / {generationProgress.target}</span>
+                    <span>{Math.round(generationProgress.target > 0 ? (generationProgress.accepted / generationProgress.target) * 100 : 100)}%</span>
+                  </div>
+                  <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-emerald-500 transition-all"
+                      style={{ width: `${generationProgress.target > 0 ? (generationProgress.accepted / generationProgress.target) * 100 : 100}%` }}
+                    />
+                  </div>
+                  <div className="text-xs text-slate-400 space-y-1">
+                    <div className="flex justify-between">
+                      <span>المحاولات</span>
+                      <span className="font-mono" dir="ltr">{generationProgress.attempts} / {generationProgress.maxAttempts}</span>
+                    </div>
+                    {(Object.keys(REJECTION_LABELS) as RejectionReason[])
+                      .filter(reason => generationProgress.rejections[reason] > 0)
+                      .map(reason => (
+                        <div key={reason} className="flex justify-between">
+                          <span>مرفوض: {REJECTION_LABELS[reason]}</span>
+                          <span className="font-mono">{generationProgress.rejections[reason]}</span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={cancelGeneration}
+                disabled={isCancellingGeneration}
+                className="w-full bg-slate-800 text-slate-200 font-bold py-2 rounded-xl border border-slate-600 hover:bg-slate-700 transition disabled:opacity-50"
+              >
+                إيقاف التوليد
+              </button>
            </div>
         </div>
       )}
@@ -525,6 +2401,31 @@ const App: React.FC = () => {
           </div>
           
         </div>
+
+        {/* Project switcher */}
+        <div className="max-w-md mx-auto px-4 pb-3 flex items-center gap-2">
+          <select
+            value={activeProjectId}
+            onChange={(e) => handleProjectSelect(e.target.value)}
+            className="flex-1 min-w-0 bg-slate-800 text-white text-sm rounded-lg px-3 py-2 border border-slate-700 outline-none focus:border-emerald-500"
+          >
+            {allProjects.map(p => (
+              <option key={p.id} value={p.id}>{p.name} ({p.contacts.length})</option>
+            ))}
+          </select>
+          <button onClick={handleCreateProject} className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 transition" title="مشروع جديد">
+            <FolderPlus className="w-4 h-4" />
+          </button>
+          <button onClick={handleDuplicateProject} className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 transition" title="نسخ المشروع">
+            <CopyPlus className="w-4 h-4" />
+          </button>
+          <button onClick={handleRenameProject} className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 transition" title="إعادة التسمية">
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button onClick={handleDeleteProject} className="p-2 rounded-lg bg-slate-800 hover:bg-red-600 transition" title="حذف المشروع">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
       </header>
 
       <main className="max-w-md mx-auto px-4 py-6 space-y-6">
@@ -549,18 +2450,71 @@ const App: React.FC = () => {
             {/* Input Card */}
             <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6 space-y-5">
               
+              {/* Numbering Profile */}
+              <div>
+                <label className="text-sm font-bold text-slate-700 mb-2 flex items-center gap-2">
+                  <Globe className="w-4 h-4" />
+                  الدولة
+                </label>
+                <select
+                  value={profileId}
+                  onChange={(e) => handleProfileChange(e.target.value)}
+                  className="w-full bg-slate-50 border-2 border-slate-200 rounded-xl py-2 px-3 focus:border-emerald-500 outline-none text-sm font-bold"
+                >
+                  {NUMBERING_PROFILES.map(p => (
+                    <option key={p.id} value={p.id}>{p.name} (+{p.countryCode})</option>
+                  ))}
+                </select>
+                {profile.mobilePrefixes.length > 1 && (
+                  <div className="flex flex-wrap gap-1.5 mt-2" dir="ltr">
+                    {profile.mobilePrefixes.map(prefix => (
+                      <button
+                        key={prefix}
+                        type="button"
+                        onClick={() => handleMobilePrefixChange(prefix)}
+                        className={`px-2.5 py-1 rounded-lg text-xs font-mono font-bold border-2 transition ${
+                          prefix === mobilePrefix
+                            ? 'border-emerald-500 bg-emerald-50 text-emerald-700'
+                            : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'
+                        }`}
+                      >
+                        {getLockedPrefix(profile, prefix)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Pattern Input */}
               <div>
                 <label className="block text-sm font-bold text-slate-700 mb-2">
-                  نمط الرقم (10 خانات)
+                  نمط الرقم ({localLength} خانات)
                 </label>
                 
-                {/* 10 Slots Grid */}
+                {/* Slots Grid */}
                 {renderPatternInputs()}
 
                 <p className="text-xs text-slate-500 mt-2 text-center">
-                  الخانتان 05 ثابتتان. أدخل باقي الأرقام أو اتركها فارغة (_).
+                  الخانات {lockedPrefix} ثابتة. أدخل باقي الأرقام أو اتركها فارغة (_).
+                </p>
+
+                {/* Raw pattern text for digit classes such as [035], [2-7] or [^0-4] */}
+                <div className="mt-3 flex items-center gap-2" dir="ltr">
+                  <span className="font-mono font-bold text-slate-400 text-sm">{lockedPrefix}</span>
+                  <input
+                    type="text"
+                    lang="en"
+                    value={patternTokens.slice(lockedCount).join('')}
+                    onChange={(e) => setPattern(lockedPrefix + e.target.value.replace(/\s/g, ''))}
+                    className="flex-1 min-w-0 bg-slate-50 border-2 border-slate-200 rounded-xl px-3 py-1.5 focus:border-emerald-500 outline-none font-mono text-sm placeholder:text-slate-300"
+                    placeholder="_[035]____[02468]"
+                  />
+                </div>
+                <p className="text-[11px] text-slate-400 mt-1 text-center">
+                  لتقييد خانة بمجموعة أرقام: [035] أو نطاق [2-7] أو استثناء [^0-4].
                 </p>
+
+                {renderCapacity()}
               </div>
 
               {/* Grid for Count & Prefix */}
@@ -595,6 +2549,39 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {/* Name template */}
+              <div>
+                <label className="block text-sm font-bold text-slate-700 mb-2">
+                  قالب اسم جهة الاتصال
+                </label>
+                <input
+                  type="text"
+                  value={nameTemplate}
+                  onChange={(e) => setNameTemplate(e.target.value)}
+                  dir="ltr"
+                  className={`w-full text-center font-mono bg-slate-50 border-2 rounded-xl py-2 outline-none ${
+                    nameTemplateError ? 'border-red-300 focus:border-red-500' : 'border-slate-200 focus:border-emerald-500'
+                  }`}
+                  placeholder="{seq:4} {prefix}"
+                />
+                {nameTemplateError ? (
+                  <p className="text-[11px] text-red-500 mt-1">{nameTemplateError}</p>
+                ) : (
+                  <>
+                    <p className="text-[11px] text-slate-400 mt-1 text-center" dir="ltr">
+                      {'{seq:4} {prefix} {batch} {date:YYYYMMDD} {last4} {pattern}'}
+                    </p>
+                    {namePreview.length > 0 && (
+                      <div className="mt-2 bg-slate-50 rounded-lg p-2 space-y-1">
+                        {namePreview.map((name, index) => (
+                          <p key={index} className="text-xs text-slate-600 text-center truncate" dir="auto">{name}</p>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+
               {/* Advanced Options Collapsible Card */}
               <div className="pt-2">
                 <CollapsibleCard
@@ -622,7 +2609,7 @@ const App: React.FC = () => {
                         max="1.0" 
                         step="0.1" 
                         value={repetitionDensity}
-                        onChange={(e) => setRepetitionDensity(parseFloat(e.target.value))}
+                        onChange={(e) => handleDensityChange(parseFloat(e.target.value))}
                         className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-emerald-600 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2"
                       />
                       <div className="flex justify-between text-[10px] text-slate-400 mt-1 px-1">
@@ -633,14 +2620,267 @@ const App: React.FC = () => {
                     </div>
                     
                     <div className="bg-white p-3 rounded-lg text-xs text-slate-600 text-center border border-slate-200 shadow-sm mt-2">
-                      {getDensityLabel(repetitionDensity)}
+                      {customConstraints ? 'قيود مخصصة: تم تعديل القيم يدوياً' : getDensityLabel(repetitionDensity)}
+                    </div>
+                  </div>
+
+                  {/* Explicit Constraints (filled by the preset, editable) */}
+                  <div className="mt-4">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-bold text-slate-700">القيود التفصيلية</span>
+                      {customConstraints && (
+                        <button
+                          type="button"
+                          onClick={() => handleDensityChange(repetitionDensity)}
+                          className="text-xs text-emerald-600 hover:text-emerald-700 font-bold"
+                        >
+                          استعادة الإعداد المسبق
+                        </button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <ConstraintInput
+                        label="تكرار الرقم"
+                        hint="أقصى مرات للرقم الواحد"
+                        value={activeConstraints.maxDigitFrequency}
+                        onChange={(v) => updateConstraint('maxDigitFrequency', v)}
+                      />
+                      <ConstraintInput
+                        label="تكرار متتالي"
+                        hint="1 = يمنع 11"
+                        value={activeConstraints.maxRunLength}
+                        onChange={(v) => updateConstraint('maxRunLength', v)}
+                      />
+                      <ConstraintInput
+                        label="طول التسلسل"
+                        hint="2 = يمنع 123 و 321"
+                        value={activeConstraints.maxSequenceLength}
+                        onChange={(v) => updateConstraint('maxSequenceLength', v)}
+                      />
+                    </div>
+                    <div className="mt-2">
+                      <label className="block text-xs font-bold text-slate-700 mb-1">مقاطع ممنوعة</label>
+                      <input
+                        type="text"
+                        lang="en"
+                        inputMode="numeric"
+                        value={forbiddenInput}
+                        onChange={(e) => handleForbiddenChange(e.target.value)}
+                        style={{ direction: 'ltr' }}
+                        className="w-full text-center bg-white border-2 border-slate-200 rounded-xl py-1.5 focus:border-emerald-500 outline-none placeholder:text-slate-300 font-mono"
+                        placeholder="666, 000"
+                      />
+                      <p className="text-[10px] text-slate-400 mt-0.5">افصل بين المقاطع بفاصلة أو مسافة. تطبق على الرقم كاملاً.</p>
+                    </div>
+                  </div>
+
+                  {/* Enumeration Order (small patterns only) */}
+                  {!validatePattern(pattern, generationOptions) && resolveGenerationStrategy(pattern, generationOptions) === 'exhaustive' && (
+                    <div className="mt-4">
+                      <label className="text-sm font-bold text-slate-700 flex items-center gap-2 mb-2">
+                        <List className="w-4 h-4" />
+                        ترتيب الحصر الشامل
+                      </label>
+                      <SegmentedToggle
+                        options={[['shuffle', 'عشوائي'], ['ascending', 'تصاعدي']] as const}
+                        value={enumerationOrder}
+                        onChange={setEnumerationOrder}
+                      />
+                      <p className="text-[11px] text-slate-500 mt-1 text-center">
+                        النمط صغير بما يكفي لحصر كل الاحتمالات، لذلك سيتم الوصول للعدد المطلوب إن كان ممكناً.
+                      </p>
                     </div>
+                  )}
+
+                  {/* File format and number style for save mode export */}
+                  <div className="mt-4">
+                    <label className="text-sm font-bold text-slate-700 flex items-center gap-2 mb-2">
+                      <Phone className="w-4 h-4" />
+                      إعدادات ملف التصدير
+                    </label>
+                    {renderExportSettings()}
+                  </div>
+
+                  {/* Optional ORG / NOTE fields, rendered from the same templates as the name */}
+                  <div className="mt-4 space-y-2">
+                    <p className="text-xs font-bold text-slate-600">حقول إضافية في الملف (اختياري)</p>
+                    {([['ORG', orgTemplate, setOrgTemplate], ['NOTE', noteTemplate, setNoteTemplate]] as const).map(([label, value, setValue]) => {
+                      const fieldError = validateTemplate(value);
+                      return (
+                        <div key={label}>
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs font-mono text-slate-500 w-12 shrink-0">{label}</span>
+                            <input
+                              type="text"
+                              value={value}
+                              onChange={(e) => setValue(e.target.value)}
+                              dir="ltr"
+                              className={`flex-1 min-w-0 font-mono text-sm bg-slate-50 border-2 rounded-lg px-2 py-1 outline-none ${
+                                fieldError ? 'border-red-300 focus:border-red-500' : 'border-slate-200 focus:border-emerald-500'
+                              }`}
+                              placeholder="{prefix} - {batch}"
+                            />
+                          </div>
+                          {fieldError && <p className="text-[11px] text-red-500 mt-1">{fieldError}</p>}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {/* Seed Input */}
+                  <div className="mt-4">
+                    <label className="text-sm font-bold text-slate-700 flex items-center gap-2 mb-2">
+                      <Dices className="w-4 h-4" />
+                      البذرة (Seed)
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        lang="en"
+                        inputMode="numeric"
+                        value={seedInput}
+                        onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9]/g, ''))}
+                        style={{ direction: 'ltr' }}
+                        className="flex-1 min-w-0 text-center bg-white border-2 border-slate-200 rounded-xl py-2 focus:border-emerald-500 outline-none placeholder:text-slate-300 font-mono"
+                        placeholder="عشوائية"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setSeedInput(createRandomSeed().toString())}
+                        className="px-3 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 transition"
+                        title="بذرة جديدة"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <p className="text-[11px] text-slate-500 mt-1 text-center">
+                      نفس النمط والعدد والكثافة والبذرة ينتج دائماً نفس الأرقام. اتركها فارغة لبذرة عشوائية.
+                    </p>
                   </div>
                 </CollapsibleCard>
               </div>
 
             </div>
 
+            {/* Test-safe mode: test ranges only, stamped exports, no deep links for generated numbers */}
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-4 space-y-3">
+              <label className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                <ShieldCheck className="w-4 h-4" />
+                الوضع الآمن (بيانات اختبار)
+              </label>
+              <SegmentedToggle
+                options={[['on', 'مفعّل'], ['off', 'متوقف']] as const}
+                value={safeMode ? 'on' : 'off'}
+                onChange={(value) => setSafeMode(value === 'on')}
+              />
+              {safeMode ? (
+                <>
+                  <p className="text-[11px] text-slate-500">
+                    يتم التوليد من نطاقات الاختبار فقط، وتُوسم الملفات المصدّرة كبيانات اختبار، وتُعطّل روابط واتساب وتيلجرام للأرقام المولّدة.
+                  </p>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-700 mb-1">نطاقات اختبار إضافية</label>
+                    <input
+                      type="text"
+                      lang="en"
+                      inputMode="numeric"
+                      value={testRangesInput}
+                      onChange={(e) => setTestRangesInput(e.target.value)}
+                      style={{ direction: 'ltr' }}
+                      className="w-full text-center bg-white border-2 border-slate-200 rounded-xl py-1.5 focus:border-emerald-500 outline-none placeholder:text-slate-300 font-mono"
+                      placeholder={`${lockedPrefix}00`}
+                    />
+                    <p className="text-[10px] text-slate-400 mt-0.5">بدايات أرقام تملكها أو مخصصة للاختبار، افصل بينها بفاصلة أو مسافة.</p>
+                  </div>
+                  {testRanges.length === 0 ? (
+                    <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-2">
+                      لا يحدد ملف ترقيم {profile.name} نطاقات اختبار، لذلك لن يتم التوليد حتى تضيف نطاقاً.
+                    </p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {testRanges.map(range => (
+                        <button
+                          key={range}
+                          type="button"
+                          onClick={() => applyTestRange(range)}
+                          className="text-xs font-mono font-bold px-2 py-1 rounded-lg bg-emerald-50 text-emerald-700 hover:bg-emerald-100 transition"
+                          title="استخدام هذا النطاق في النمط"
+                          dir="ltr"
+                        >
+                          {range}…
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-xs font-bold text-slate-700 mb-1">أرقام مسموح فتح روابطها</label>
+                    <input
+                      type="text"
+                      lang="en"
+                      inputMode="tel"
+                      value={deepLinkWhitelistInput}
+                      onChange={(e) => setDeepLinkWhitelistInput(e.target.value)}
+                      style={{ direction: 'ltr' }}
+                      className="w-full text-center bg-white border-2 border-slate-200 rounded-xl py-1.5 focus:border-emerald-500 outline-none placeholder:text-slate-300 font-mono"
+                      placeholder={`${lockedPrefix}...`}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p className="text-xs text-red-700 bg-red-50 rounded-lg p-2">
+                  الوضع الآمن متوقف: قد تطابق الأرقام المولّدة أرقاماً حقيقية لأشخاص، فلا تتواصل معها.
+                </p>
+              )}
+            </div>
+
+            {/* Duplicate checks: imported numbers (exclusion set) and project scope */}
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-4 space-y-3">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".vcf,.vcard,.csv,.txt,text/vcard,text/csv"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => importInputRef.current?.click()}
+                className="w-full flex items-center justify-center gap-2 bg-slate-100 text-slate-700 font-bold py-3 rounded-xl hover:bg-slate-200 transition"
+              >
+                <Upload className="w-5 h-5" />
+                <span className="text-sm">استيراد أرقام موجودة (VCF / CSV)</span>
+              </button>
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showImportedInList}
+                  onChange={(e) => setShowImportedInList(e.target.checked)}
+                  className="accent-emerald-600"
+                />
+                عرض الأرقام المستوردة في القائمة كمحفوظة
+              </label>
+              <div>
+                <p className="text-xs font-bold text-slate-600 mb-2">منع التكرار مع</p>
+                <SegmentedToggle
+                  options={[['project', 'هذا المشروع'], ['all', 'كل المشاريع']] as const}
+                  value={duplicateScope}
+                  onChange={setDuplicateScope}
+                />
+              </div>
+              {importedNumbers.size > 0 && (
+                <div className="flex items-center justify-between text-xs text-slate-500">
+                  <span>{importedNumbers.size} رقم مستورد مستبعد من التوليد</span>
+                  <button
+                    type="button"
+                    onClick={handleClearImported}
+                    className="text-red-500 hover:text-red-600 font-bold"
+                  >
+                    مسح
+                  </button>
+                </div>
+              )}
+            </div>
+
             {/* Actions */}
             <div className="grid grid-cols-1 gap-3">
               <button
@@ -669,8 +2909,39 @@ const App: React.FC = () => {
               <div>
                 <h2 className="font-bold text-slate-800">النتائج ({generatedContacts.length})</h2>
                 <p className="text-xs text-slate-500">البادئة: {contactNamePrefix}</p>
+                {lastSeed !== null && (
+                  <button
+                    type="button"
+                    onClick={() => setSeedInput(lastSeed.toString())}
+                    className="text-xs text-slate-500 hover:text-emerald-600 transition"
+                    title="استخدام هذه البذرة للتوليد القادم"
+                  >
+                    البذرة: <span className="font-mono" dir="ltr">{lastSeed}</span>
+                  </button>
+                )}
+                {exportHistory.length > 0 && (
+                  <p className="text-xs text-slate-500">
+                    التصدير: {exportHistory.length} ملف، آخرها {new Date(exportHistory[exportHistory.length - 1].timestamp).toLocaleString('ar')}
+                  </p>
+                )}
               </div>
               <div className="flex items-center gap-2">
+                <button
+                  onClick={handleUndo}
+                  disabled={listHistory.past.length === 0}
+                  className="text-slate-600 bg-slate-50 p-2 rounded-lg hover:bg-slate-100 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="تراجع"
+                >
+                  <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={listHistory.future.length === 0}
+                  className="text-slate-600 bg-slate-50 p-2 rounded-lg hover:bg-slate-100 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="إعادة"
+                >
+                  <Redo2 className="w-5 h-5" />
+                </button>
                 <button 
                   onClick={copyAllNumbers}
                   className="text-blue-500 bg-blue-50 p-2 rounded-lg hover:bg-blue-100 transition flex items-center gap-1"
@@ -682,87 +2953,96 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* List */}
-            <div className="space-y-3">
-              {generatedContacts.slice(0, 100).map((contact) => (
-                <div 
-                  key={contact.id} 
-                  className={`p-4 rounded-xl shadow-sm border flex items-center justify-between transition-colors ${
-                    contact.isSaved 
-                      ? 'bg-emerald-50 border-emerald-200/60' 
-                      : 'bg-white border-slate-100'
-                  }`}
+            {/* Export format, also the number style for copy */}
+            <div className="bg-white p-3 rounded-xl shadow-sm border border-slate-100">
+              {renderExportSettings()}
+            </div>
+
+            {/* Batch history: re-export, mark saved or roll back one run */}
+            {renderBatchHistory()}
+
+            {/* Exported files, with per-chunk retry for ZIP exports */}
+            {renderExportHistory()}
+
+            {/* Pattern / constraint violations of the last batch, import or full-list check */}
+            {renderVerification()}
+
+            {/* Search & filters */}
+            <div className="bg-white p-3 rounded-xl shadow-sm border border-slate-100 space-y-3">
+              <div className="relative">
+                <Search className="w-4 h-4 text-slate-400 absolute right-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="search"
+                  value={contactFilter.query}
+                  onChange={(e) => updateFilter('query', e.target.value)}
+                  className="w-full bg-slate-50 border-2 border-slate-200 rounded-xl py-2 pr-9 pl-3 text-sm focus:border-emerald-500 outline-none"
+                  placeholder="ابحث بجزء من الرقم أو الاسم"
+                />
+              </div>
+              <SegmentedToggle
+                options={[['all', 'الكل'], ['saved', 'محفوظ'], ['unsaved', 'غير محفوظ']] as const}
+                value={contactFilter.status}
+                onChange={(value) => updateFilter('status', value)}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={contactFilter.batchId}
+                  onChange={(e) => updateFilter('batchId', e.target.value)}
+                  className="bg-slate-50 border-2 border-slate-200 rounded-xl py-2 px-2 text-sm focus:border-emerald-500 outline-none"
                 >
-                  <div className="flex items-center gap-3">
-                    <div className={`w-10 h-10 rounded-full flex items-center justify-center font-mono text-xs font-bold ${
-                      contact.isSaved 
-                        ? 'bg-white text-emerald-600 shadow-sm border border-emerald-100' 
-                        : 'bg-slate-100 text-slate-500'
-                    }`}>
-                      {contact.id}
-                    </div>
-                    <div>
-                      <div className={`font-mono font-bold text-lg dir-ltr flex items-center gap-2 ${
-                        contact.isSaved ? 'text-emerald-900' : 'text-slate-700'
-                      }`}>
-                        {contact.number}
-                        {contact.isSaved && (
-                          <span title="تم الحفظ" className="animate-fade-in">
-                            <CheckCircle2 className="w-4 h-4 text-emerald-500 fill-emerald-100" />
-                          </span>
-                        )}
-                      </div>
-                      <div className="text-xs text-slate-400 flex items-center gap-1">
-                        <span className={`font-bold ${contact.isSaved ? 'text-emerald-700/70' : ''}`}>{contact.name}</span>
-                        {!contact.isSaved && <span className="text-amber-600 bg-amber-50 px-2 py-0.5 rounded-full text-[10px]">غير محفوظ</span>}
-                        {contact.isSaved && <span className="text-emerald-600 bg-emerald-100 px-2 py-0.5 rounded-full text-[10px]">محفوظ</span>}
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div className="flex items-center gap-2">
-                    <button 
-                      onClick={() => copyToClipboard(contact.number, contact.id)}
-                      className={`p-2 rounded-lg transition-all duration-300 ease-[cubic-bezier(0.34,1.56,0.64,1)] ${
-                        copiedId === contact.id 
-                          ? 'bg-emerald-100 text-emerald-600 scale-110' 
-                          : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
-                      }`}
-                      title="نسخ الرقم"
-                    >
-                      {copiedId === contact.id ? <Check className="w-6 h-6" /> : <Copy className="w-6 h-6" />}
-                    </button>
-                    
-                    <button 
-                      onClick={() => openWhatsApp(contact.number)}
-                      className="bg-green-50 text-green-600 p-2 rounded-lg hover:bg-green-100 transition"
-                      title="فتح واتساب"
-                    >
-                      <MessageCircle className="w-6 h-6" />
-                    </button>
-
-                    <button 
-                      onClick={() => openTelegram(contact.number)}
-                      className="bg-blue-50 text-blue-500 p-2 rounded-lg hover:bg-blue-100 transition"
-                      title="فتح تيلجرام"
-                    >
-                      <Send className="w-6 h-6" />
-                    </button>
-                  </div>
-                </div>
-              ))}
-              {generatedContacts.length > 100 && (
-                 <div className="text-center py-4 text-slate-400 text-sm">
-                   + {generatedContacts.length - 100} رقم آخر (تم عرض أول 100 فقط للأداء)
-                 </div>
-              )}
-              {generatedContacts.length === 0 && (
-                <div className="text-center py-10 text-slate-400">
-                  لا توجد نتائج.
+                  <option value="">كل الدفعات</option>
+                  {batches.map(batch => (
+                    <option key={batch.id} value={batch.id}>الدفعة #{batch.number}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={contactFilter.digitPattern}
+                  onChange={(e) => updateFilter('digitPattern', e.target.value)}
+                  dir="ltr"
+                  className={`font-mono bg-slate-50 border-2 rounded-xl py-2 px-2 text-sm text-center outline-none ${
+                    digitFilterError ? 'border-red-300 focus:border-red-500' : 'border-slate-200 focus:border-emerald-500'
+                  }`}
+                  placeholder="7_7 / [05]00"
+                  title="نمط أرقام يظهر في أي موضع من الرقم"
+                />
+              </div>
+              {digitFilterError && <p className="text-[11px] text-red-500">{digitFilterError}</p>}
+              {isFilterActive(contactFilter) && (
+                <div className="flex items-center justify-between text-xs text-slate-500">
+                  <span>عرض {filteredContacts.length} من {generatedContacts.length}</span>
+                  <button
+                    type="button"
+                    onClick={() => setContactFilter(EMPTY_FILTER)}
+                    className="text-emerald-600 font-bold hover:text-emerald-700"
+                  >
+                    مسح الفلاتر
+                  </button>
                 </div>
               )}
             </div>
 
+            {/* Add a specific number by hand */}
+            {renderManualAdd()}
+
+            {/* Selection & bulk actions */}
+            {generatedContacts.length > 0 && renderSelectionBar()}
+
+            {/* List (windowed: every contact is reachable, only visible rows are rendered) */}
+            {filteredContacts.length > 0 ? (
+              <VirtualList
+                items={filteredContacts}
+                rowHeight={CONTACT_ROW_HEIGHT}
+                maxHeight={CONTACT_ROW_HEIGHT * 7}
+                getKey={(contact: GeneratedContact) => contact.id}
+                renderRow={(contact: GeneratedContact) => renderContactRow(contact)}
+              />
+            ) : (
+              <div className="text-center py-10 text-slate-400">
+                {generatedContacts.length === 0 ? 'لا توجد نتائج.' : 'لا توجد أرقام مطابقة للبحث.'}
+              </div>
+            )}
+
             {/* Sticky Action for Preview Mode */}
              <div className="sticky bottom-4 z-20 space-y-3">
                 <button
@@ -771,7 +3051,7 @@ const App: React.FC = () => {
                   className="w-full flex items-center justify-center gap-2 bg-emerald-600 text-white font-bold py-3 rounded-xl shadow-xl hover:bg-emerald-700 transition"
                 >
                   <Download className="w-5 h-5" />
-                  <span>حفظ القائمة الحالية (VCF)</span>
+                  <span>حفظ القائمة الحالية ({EXPORTERS[exportFormat].label})</span>
                 </button>
                 
                 <div className="grid grid-cols-2 gap-3">
@@ -795,6 +3075,15 @@ const App: React.FC = () => {
                   </button>
                 </div>
 
+                <button
+                  type="button"
+                  onClick={handleRenumber}
+                  className="w-full flex items-center justify-center gap-2 bg-slate-100 text-slate-700 font-bold py-3 rounded-xl shadow-md hover:bg-slate-200 transition"
+                >
+                  <ListOrdered className="w-5 h-5" />
+                  <span className="text-sm">إعادة الترقيم</span>
+                </button>
+
                 {/* Clear App List Button (Full Reset) */}
                 <button
                     type="button"
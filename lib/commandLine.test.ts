@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { TEST_DATA_CATEGORY } from '../utils/safety';
+import { runCli } from './commandLine';
+
+const ARABIC = /[؀-ۿ]/;
+
+const run = (...args: string[]) => {
+  const output = { code: 0, stdout: '', stderr: '', files: {} as Record<string, string> };
+  output.code = runCli(args, {
+    stdout: text => { output.stdout += text; },
+    stderr: text => { output.stderr += text; },
+    writeFile: (path, content) => { output.files[path] = content; }
+  });
+  return output;
+};
+
+describe('runCli', () => {
+  it('writes the fixture to stdout and the summary to stderr', () => {
+    const { code, stdout, stderr } = run('generate', '--pattern', '05________', '--count', '3', '--seed', '7', '--no-safe-mode', '--lang', 'en');
+    expect(code).toBe(0);
+    expect(stdout.match(/BEGIN:VCARD/g)).toHaveLength(3);
+    expect(stderr).toContain('Seed: 7');
+    expect(stderr).not.toMatch(ARABIC);
+  });
+
+  it('writes the same file for the same seed', () => {
+    const first = run('generate', '--pattern', '05________', '--count', '5', '--seed', '42', '--no-safe-mode', '-o', 'a.csv', '--format', 'csv');
+    const second = run('generate', '--pattern', '05________', '--count', '5', '--seed', '42', '--no-safe-mode', '-o', 'a.csv', '--format', 'csv');
+    expect(first.files['a.csv']).toBe(second.files['a.csv']);
+    expect(first.stdout).toBe('');
+  });
+
+  it.each([
+    [['generate', '--pattern', '05____]___', '--count', '3']],
+    [['generate', '--pattern', '05________', '--count', '0', '--no-safe-mode']],
+    [['generate', '--pattern', '05________', '--count', '3', '--seed', 'x', '--no-safe-mode']],
+    [['generate', '--pattern', '05________', '--count', '3', '--name-template', '{nope}', '--no-safe-mode']],
+    [['generate', '--pattern', '05________', '--count', '3', '--density', '2', '--no-safe-mode']],
+    [['generate', '--pattern', '05________', '--count', '3', '--no-safe-mode', '--test-ranges', '0550']],
+    [['generate', '--pattern', '05________', '--count', '3']],
+    [['generate', '--pattern', '05________', '--count', '3', '--safe-mode']],
+    [['generate', '--pattern', '05________', '--count', '3', '--safe-mode', '--no-safe-mode']],
+    [['generate', '--unknown']],
+    [['export']]
+  ])('reports %j in English with exit code 1', args => {
+    const { code, stdout, stderr } = run(...args, '--lang', 'en');
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).not.toBe('');
+    expect(stderr).not.toMatch(ARABIC);
+  });
+
+  it('reports errors in Arabic by default', () => {
+    const { code, stderr } = run('generate', '--pattern', '05____]___', '--count', '3');
+    expect(code).toBe(1);
+    expect(stderr).toMatch(ARABIC);
+  });
+
+  it('stamps test data in safe mode, which is on by default', () => {
+    const args = ['generate', '--pattern', '0550______', '--count', '2', '--seed', '1'];
+    const safe = run(...args, '--test-ranges', '0550');
+    expect(safe.code).toBe(0);
+    expect(safe.stdout.match(new RegExp(`CATEGORIES:${TEST_DATA_CATEGORY}`, 'g'))).toHaveLength(2);
+    expect(run(...args, '--no-safe-mode').stdout).not.toContain(`CATEGORIES:${TEST_DATA_CATEGORY}`);
+  });
+
+  it('exits with 2 when the pattern runs out of numbers', () => {
+    const { code, stderr } = run('generate', '--pattern', '051234567_', '--count', '20', '--no-safe-mode', '--lang', 'en');
+    expect(code).toBe(2);
+    expect(stderr).not.toMatch(ARABIC);
+  });
+});
@@ -0,0 +1,191 @@
+import { parseArgs } from 'node:util';
+import { ExportFormat, NumberFormat, VCardVersion } from '../types';
+import { EXPORTERS } from '../utils/exporters';
+import { describeGenerationResult } from '../utils/generator';
+import { NUMBERING_PROFILES } from '../utils/profiles';
+import { MessageLanguage } from '../utils/messages';
+import { createDefaultSettings } from '../utils/projects';
+import { parseDigitList } from '../utils/safety';
+import { createFixture, MAX_FIXTURE_COUNT } from './fixture';
+
+// Exit codes: input errors and short runs are told apart so CI can react to each
+const EXIT_OK = 0;
+const EXIT_INVALID = 1;
+const EXIT_INCOMPLETE = 2;
+
+const USAGE: Record<MessageLanguage, string> = {
+  ar: `الاستخدام: whatsapp-x generate --pattern <النمط> --count <العدد> [خيارات]
+
+  --pattern <النمط>          نمط الرقم، مثل 05_____123 أو 05[035]____123
+  --count <العدد>            عدد الأرقام (1 إلى ${MAX_FIXTURE_COUNT})
+  --seed <البذرة>            بذرة التوليد؛ نفس البذرة تعطي نفس الملف
+  --format <الصيغة>          ${Object.keys(EXPORTERS).join(' | ')} (الافتراضي vcf)
+  -o, --output <الملف>       ملف الإخراج؛ بدونه يُكتب الناتج إلى stdout
+  --profile <المعرّف>         ملف الترقيم: ${NUMBERING_PROFILES.map(p => p.id).join(' | ')} (الافتراضي sa)
+  --prefix <الاسم>           قيمة {prefix} في قالب الاسم
+  --name-template <القالب>   قالب الاسم، مثل "{seq:4} {prefix}"
+  --density <0-1>            كثافة التكرار (الافتراضي 0.3)
+  --number-format <الصيغة>   local | international
+  --vcard-version <الإصدار>  2.1 | 3.0 | 4.0
+  --safe-mode                الوضع الآمن: يبقى النمط داخل نطاقات الاختبار وتُوسم جهات الاتصال كبيانات اختبار
+  --no-safe-mode             إيقاف الوضع الآمن (الافتراضي كما في مشروع جديد في التطبيق: ${createDefaultSettings().safeMode ? 'مفعّل' : 'متوقف'})
+  --test-ranges <النطاقات>   نطاقات اختبار إضافية مفصولة بفواصل، مع --safe-mode فقط
+  --lang <اللغة>             ar | en (الافتراضي ar)
+
+رمز الخروج 1 عند خطأ في المدخلات، و2 عند توليد عدد أقل من المطلوب (يُكتب الملف رغم ذلك).`,
+  en: `Usage: whatsapp-x generate --pattern <pattern> --count <count> [options]
+
+  --pattern <pattern>        Number pattern, e.g. 05_____123 or 05[035]____123
+  --count <count>            How many numbers to generate (1 to ${MAX_FIXTURE_COUNT})
+  --seed <seed>              Generation seed; the same seed gives the same file
+  --format <format>          ${Object.keys(EXPORTERS).join(' | ')} (default vcf)
+  -o, --output <file>        Output file; written to stdout when omitted
+  --profile <id>             Numbering profile: ${NUMBERING_PROFILES.map(p => p.id).join(' | ')} (default sa)
+  --prefix <name>            Value of {prefix} in the name template
+  --name-template <template> Name template, e.g. "{seq:4} {prefix}"
+  --density <0-1>            Repetition density (default 0.3)
+  --number-format <format>   local | international
+  --vcard-version <version>  2.1 | 3.0 | 4.0
+  --safe-mode                Test-safe mode: the pattern stays inside a test range and contacts are stamped as test data
+  --no-safe-mode             Turn test-safe mode off (the default follows a new app project: ${createDefaultSettings().safeMode ? 'on' : 'off'})
+  --test-ranges <ranges>     Extra comma separated test ranges, only with --safe-mode
+  --lang <language>          ar | en (default ar)
+
+Exits with 1 on invalid input and 2 when fewer numbers than requested were generated (the file is still written).`
+};
+
+// Errors of the command line itself; generator errors come from the library in the chosen language
+const CLI_MESSAGES = {
+  unknownCommand: { ar: 'أمر غير معروف', en: 'Unknown command' },
+  invalidArguments: { ar: 'خيارات غير صحيحة', en: 'Invalid options' },
+  invalidLanguage: { ar: 'اللغة يجب أن تكون ar أو en.', en: 'The language must be ar or en.' },
+  invalidFormat: { ar: 'صيغة التصدير غير معروفة', en: 'Unknown export format' },
+  invalidProfile: { ar: 'ملف الترقيم غير معروف', en: 'Unknown numbering profile' },
+  invalidDensity: { ar: 'كثافة التكرار يجب أن تكون رقماً بين 0 و 1.', en: 'The repetition density must be a number between 0 and 1.' },
+  invalidNumberFormat: { ar: 'صيغة الرقم يجب أن تكون local أو international.', en: 'The number format must be local or international.' },
+  invalidVCardVersion: { ar: 'إصدار vCard يجب أن يكون 2.1 أو 3.0 أو 4.0.', en: 'The vCard version must be 2.1, 3.0 or 4.0.' },
+  conflictingSafeMode: { ar: 'لا يمكن استخدام --safe-mode و--no-safe-mode معاً.', en: '--safe-mode and --no-safe-mode cannot be used together.' },
+  seed: { ar: 'البذرة', en: 'Seed' },
+  written: { ar: 'تم حفظ الملف', en: 'Saved to' }
+};
+
+const VCARD_VERSIONS: VCardVersion[] = ['2.1', '3.0', '4.0'];
+const NUMBER_FORMATS: NumberFormat[] = ['local', 'international'];
+
+const parseCommandLine = (args: string[]) => parseArgs({
+  args,
+  allowPositionals: true,
+  options: {
+    pattern: { type: 'string' },
+    count: { type: 'string' },
+    seed: { type: 'string' },
+    format: { type: 'string', default: 'vcf' },
+    output: { type: 'string', short: 'o' },
+    profile: { type: 'string' },
+    prefix: { type: 'string' },
+    'name-template': { type: 'string' },
+    density: { type: 'string' },
+    'number-format': { type: 'string' },
+    'vcard-version': { type: 'string' },
+    'safe-mode': { type: 'boolean' },
+    'no-safe-mode': { type: 'boolean' },
+    'test-ranges': { type: 'string' },
+    lang: { type: 'string', default: 'ar' },
+    help: { type: 'boolean', short: 'h' }
+  }
+});
+
+// Read ahead of the full parse, so that parse errors are already reported in the chosen language
+const detectLanguage = (args: string[]): MessageLanguage => {
+  const index = args.lastIndexOf('--lang');
+  const value = index !== -1 ? args[index + 1] : args.filter(arg => arg.startsWith('--lang=')).pop()?.slice('--lang='.length);
+  return value === 'en' ? 'en' : 'ar';
+};
+
+// Where the command line writes; the entry point passes the process streams and the file system
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  writeFile: (path: string, content: string) => void;
+}
+
+/**
+ * Runs the command line and returns the exit code. Generated content goes to the
+ * output file or stdout; usage, errors and the run summary go to stderr.
+ */
+export const runCli = (args: string[], io: CliIO): number => {
+  const language = detectLanguage(args);
+  const fail = (message: string): number => {
+    io.stderr(`${message}\n`);
+    return EXIT_INVALID;
+  };
+
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(args);
+  } catch (err) {
+    return fail(`${CLI_MESSAGES.invalidArguments[language]}: ${err instanceof Error ? err.message : String(err)}\n\n${USAGE[language]}`);
+  }
+  const { values, positionals } = parsed;
+
+  if (values.lang !== 'ar' && values.lang !== 'en') return fail(CLI_MESSAGES.invalidLanguage[language]);
+  if (values.help || positionals.length === 0) {
+    io.stderr(`${USAGE[language]}\n`);
+    return values.help ? EXIT_OK : EXIT_INVALID;
+  }
+  if (positionals[0] !== 'generate' || positionals.length > 1) {
+    return fail(`${CLI_MESSAGES.unknownCommand[language]}: ${positionals.join(' ')}\n\n${USAGE[language]}`);
+  }
+
+  const format = values.format as ExportFormat;
+  if (!Object.keys(EXPORTERS).includes(format)) {
+    return fail(`${CLI_MESSAGES.invalidFormat[language]}: ${values.format} (${Object.keys(EXPORTERS).join(' | ')})`);
+  }
+  if (values.profile !== undefined && !NUMBERING_PROFILES.some(p => p.id === values.profile)) {
+    return fail(`${CLI_MESSAGES.invalidProfile[language]}: ${values.profile} (${NUMBERING_PROFILES.map(p => p.id).join(' | ')})`);
+  }
+  const density = values.density !== undefined ? Number(values.density) : undefined;
+  if (density !== undefined && (values.density!.trim() === '' || !(density >= 0 && density <= 1))) {
+    return fail(CLI_MESSAGES.invalidDensity[language]);
+  }
+  const numberFormat = values['number-format'] as NumberFormat | undefined;
+  if (numberFormat !== undefined && !NUMBER_FORMATS.includes(numberFormat)) {
+    return fail(CLI_MESSAGES.invalidNumberFormat[language]);
+  }
+  const vcardVersion = values['vcard-version'] as VCardVersion | undefined;
+  if (vcardVersion !== undefined && !VCARD_VERSIONS.includes(vcardVersion)) {
+    return fail(CLI_MESSAGES.invalidVCardVersion[language]);
+  }
+
+  if (values['safe-mode'] && values['no-safe-mode']) return fail(CLI_MESSAGES.conflictingSafeMode[language]);
+
+  const { fixture, error } = createFixture({
+    pattern: values.pattern ?? '',
+    count: values.count !== undefined && /^\d+$/.test(values.count.trim()) ? Number(values.count) : 0,
+    seed: values.seed,
+    format,
+    prefix: values.prefix,
+    nameTemplate: values['name-template'],
+    generation: { profileId: values.profile, repetitionDensity: density },
+    export: { numberFormat, version: vcardVersion },
+    // Neither flag leaves the choice to the library, which follows the app's default
+    safeMode: values['safe-mode'] ? true : values['no-safe-mode'] ? false : undefined,
+    testRanges: values['test-ranges'] !== undefined ? parseDigitList(values['test-ranges']) : undefined,
+    language
+  });
+  if (!fixture) return fail(error!);
+
+  if (values.output) {
+    io.writeFile(values.output, fixture.content);
+  } else {
+    io.stdout(fixture.content);
+  }
+
+  const summary = [
+    describeGenerationResult(fixture.result, language),
+    `${CLI_MESSAGES.seed[language]}: ${fixture.seed}`,
+    ...(values.output ? [`${CLI_MESSAGES.written[language]}: ${values.output}`] : [])
+  ];
+  io.stderr(`${summary.join('\n')}\n`);
+  return fixture.contacts.length < fixture.result.requested ? EXIT_INCOMPLETE : EXIT_OK;
+};
@@ -0,0 +1,117 @@
+import { ExportFormat, GeneratedContact, GenerationOptions, GenerationResult } from '../types';
+import { DEFAULT_REPETITION_DENSITY } from '../utils/constraints';
+import { stampNewContacts } from '../utils/contacts';
+import { EXPORTERS, ExportOptions } from '../utils/exporters';
+import { generatePhoneNumbers, validatePattern } from '../utils/generator';
+import { getProfile } from '../utils/profiles';
+import { createDefaultSettings } from '../utils/projects';
+import { formatMessage, MessageLanguage } from '../utils/messages';
+import { createRandomSeed, parseSeed } from '../utils/random';
+import { getTestRanges, TEST_DATA_CATEGORY, TEST_DATA_NOTE, validateSafePattern, validateTestRanges } from '../utils/safety';
+import { DEFAULT_NAME_TEMPLATE, validateTemplate } from '../utils/template';
+
+// Same limit as the count field of the app
+export const MAX_FIXTURE_COUNT = 10000;
+
+export interface FixtureRequest {
+  pattern: string;
+  count: number;
+  seed?: number | string; // Random when omitted; the fixture reports the seed it used
+  format?: ExportFormat; // Defaults to 'vcf'
+  prefix?: string; // {prefix} of the name template, defaults to the app's "TEST <"
+  nameTemplate?: string; // Defaults to DEFAULT_NAME_TEMPLATE
+  generation?: Partial<Omit<GenerationOptions, 'seed'>>; // Profile, density / constraints and strategy
+  export?: Omit<ExportOptions, 'fallbackProfileId' | 'extraFields'>;
+  // Test-safe mode, on like in a new app project when omitted: the pattern must stay
+  // inside a test range and every contact is stamped as test data
+  safeMode?: boolean;
+  testRanges?: string[]; // Added to the profile's test ranges; requires safe mode
+  language?: MessageLanguage; // Of the returned error message, defaults to Arabic as in the app
+}
+
+export interface Fixture {
+  contacts: GeneratedContact[]; // Named and numbered from 0001, sorted by number
+  result: GenerationResult; // Raw generator output with the run statistics
+  seed: number;
+  content: string; // Serialized file
+  extension: string;
+  mimeType: string;
+}
+
+const getGenerationOptions = (request: FixtureRequest): GenerationOptions => ({
+  ...request.generation,
+  repetitionDensity: request.generation?.repetitionDensity ?? DEFAULT_REPETITION_DENSITY
+});
+
+// Same default as the app, so turning safe mode off headless is as explicit as in the UI
+const isSafeMode = (request: FixtureRequest): boolean => request.safeMode ?? createDefaultSettings().safeMode;
+
+/**
+ * Runs the app's input checks for a fixture request. Returns an error message in
+ * request.language (Arabic by default) or null.
+ */
+export const validateFixtureRequest = (request: FixtureRequest): string | null => {
+  const language = request.language ?? 'ar';
+  if (request.seed !== undefined && parseSeed(request.seed) === null) {
+    return formatMessage(language, 'seedInvalid');
+  }
+
+  const patternError = validatePattern(request.pattern, getGenerationOptions(request), language);
+  if (patternError) return patternError;
+
+  const customRanges = request.testRanges ?? [];
+  if (isSafeMode(request)) {
+    const profile = getProfile(request.generation?.profileId);
+    const safetyError = validateTestRanges(customRanges, profile, language)
+      ?? validateSafePattern(request.pattern, getTestRanges(profile, customRanges), profile, language);
+    if (safetyError) return safetyError;
+  } else if (customRanges.length > 0) {
+    return formatMessage(language, 'testRangesWithoutSafeMode');
+  }
+
+  if (!Number.isInteger(request.count) || request.count <= 0 || request.count > MAX_FIXTURE_COUNT) {
+    return formatMessage(language, 'countOutOfRange', { max: MAX_FIXTURE_COUNT });
+  }
+
+  if (request.prefix !== undefined && !request.prefix.trim()) {
+    return formatMessage(language, 'prefixEmpty');
+  }
+
+  const templateError = validateTemplate(request.nameTemplate ?? DEFAULT_NAME_TEMPLATE, language);
+  return templateError ? formatMessage(language, 'nameTemplate', { error: templateError }) : null;
+};
+
+/**
+ * Generates and serializes a fixture file without the UI: the contacts get the same
+ * names and serials as a first batch in a fresh project, so equal requests with a
+ * seed produce identical files. Returns the fixture, or an error message in request.language.
+ */
+export const createFixture = (request: FixtureRequest): { fixture: Fixture | null; error: string | null } => {
+  const error = validateFixtureRequest(request);
+  if (error) return { fixture: null, error };
+
+  const seed = request.seed !== undefined ? parseSeed(request.seed)! : createRandomSeed();
+  const options: GenerationOptions = { ...getGenerationOptions(request), seed };
+  const prefix = request.prefix ?? createDefaultSettings().contactNamePrefix;
+  const result = generatePhoneNumbers({ pattern: request.pattern, count: request.count, contactNamePrefix: prefix }, options);
+
+  const contacts = stampNewContacts(result.contacts, {
+    firstSerial: 1,
+    batch: 1,
+    nameTemplate: request.nameTemplate ?? DEFAULT_NAME_TEMPLATE,
+    naming: { prefix, pattern: request.pattern }
+  });
+
+  const exporter = EXPORTERS[request.format ?? 'vcf'];
+  const content = exporter.serialize(contacts, {
+    ...request.export,
+    fallbackProfileId: options.profileId,
+    // Mirrors the app's test-safe mode stamp on generated contacts
+    extraFields: isSafeMode(request) ? () => ({ note: TEST_DATA_NOTE, categories: [TEST_DATA_CATEGORY] }) : undefined
+  });
+
+  return {
+    fixture: { contacts, result, seed, content, extension: exporter.extension, mimeType: exporter.mimeType },
+    error: null
+  };
+};
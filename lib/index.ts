@@ -0,0 +1,57 @@
+/**
+ * Headless entry point: the generator, validation and export functions the app uses,
+ * for scripts and CI pipelines that produce fixture files without the UI.
+ * Messages are Arabic as in the app unless a function is given language 'en'.
+ */
+export type {
+  ContactSource,
+  ContactViolation,
+  CSVDelimiter,
+  ExportColumn,
+  ExportFormat,
+  GeneratedContact,
+  GenerationConfig,
+  GenerationConstraints,
+  GenerationOptions,
+  GenerationProgress,
+  GenerationResult,
+  NumberFormat,
+  NumberingProfile,
+  PatternCapacity,
+  RandomSource,
+  RejectionCounts,
+  RejectionReason,
+  VCardVersion,
+  VerificationReport,
+  ViolationKind
+} from '../types';
+
+export {
+  countValidNumbers,
+  createGenerationRun,
+  describeGenerationResult,
+  generatePhoneNumbers,
+  getMainRejectionReason,
+  validateContactNumber,
+  validatePattern
+} from '../utils/generator';
+export type { GenerationRun } from '../utils/generator';
+export { constraintsFromDensity, DEFAULT_REPETITION_DENSITY, validateConstraints } from '../utils/constraints';
+export { createSeededRandom, MAX_SEED, parseSeed } from '../utils/random';
+export { DEFAULT_PROFILE_ID, getLocalLength, getProfile, NUMBERING_PROFILES } from '../utils/profiles';
+export { formatContactNumber, toE164 } from '../utils/phone';
+export { DEFAULT_NAME_TEMPLATE, renderTemplate, validateTemplate } from '../utils/template';
+export type { TemplateContext } from '../utils/template';
+export { generateVCF, serializeVCard } from '../utils/vcf';
+export type { VCardExtraFields, VCFOptions } from '../utils/vcf';
+export { DEFAULT_EXPORT_COLUMNS, EXPORTERS, splitIntoChunks } from '../utils/exporters';
+export type { ContactExporter, ExportOptions } from '../utils/exporters';
+export { createZip } from '../utils/zip';
+export type { ZipEntry } from '../utils/zip';
+export { verifyContacts } from '../utils/verification';
+export { TEST_DATA_CATEGORY, TEST_DATA_NOTE, validateSafePattern, validateTestRanges } from '../utils/safety';
+
+export { createFixture, MAX_FIXTURE_COUNT, validateFixtureRequest } from './fixture';
+export type { Fixture, FixtureRequest } from './fixture';
+export { formatMessage, MESSAGES, REJECTION_PHRASES } from '../utils/messages';
+export type { MessageKey, MessageLanguage, MessageParams } from '../utils/messages';
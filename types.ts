@@ -1,8 +1,18 @@
+// Where a contact came from
+export type ContactSource = 'generated' | 'manual' | 'imported';
+
 export interface GeneratedContact {
   id: string;
   number: string;
   name: string;
   isSaved?: boolean;
+  seed?: number; // Seed of the generation run that produced this contact
+  profileId?: string; // Numbering profile the number belongs to (country code for E.164)
+  // Set once when the contact joins a list; only an explicit renumbering rewrites serial, id and name
+  serial?: number;
+  batchId?: string; // Generation run or import that created the contact
+  createdAt?: number; // Unix ms
+  source?: ContactSource;
 }
 
 export interface GenerationConfig {
@@ -11,6 +21,196 @@ export interface GenerationConfig {
   contactNamePrefix: string;
 }
 
+// Explicit digit rules; null means "no limit"
+export interface GenerationConstraints {
+  maxDigitFrequency: number | null; // Max occurrences of any single digit among the free slots
+  maxRunLength: number | null; // Max identical digits in a row (1 = no '11')
+  maxSequenceLength: number | null; // Max ascending/descending run (2 = no '123' / '321')
+  forbiddenSubstrings: string[]; // Digit strings that may not appear anywhere in the number
+}
+
 export interface GenerationOptions {
-  repetitionDensity: number; // 0.0 to 1.0
-}
\ No newline at end of file
+  profileId?: string; // Numbering profile the pattern must follow, defaults to Saudi ('sa')
+  repetitionDensity: number; // 0.0 to 1.0, preset used when constraints are not given
+  constraints?: GenerationConstraints; // Overrides the density preset when set
+  seed?: number; // Unsigned 32-bit seed; same seed + config => same contacts
+  strategy?: 'auto' | 'random' | 'exhaustive'; // 'auto' enumerates small patterns
+  enumerationOrder?: 'shuffle' | 'ascending'; // Which subset exhaustive mode keeps
+}
+
+// Why the random sampler threw a candidate number away: the constraint that left a slot
+// without a valid digit, or 'duplicate' when the finished number was already taken
+export type RejectionReason = 'frequency' | 'run' | 'sequence' | 'forbidden' | 'duplicate';
+
+export type RejectionCounts = Record<RejectionReason, number>;
+
+// Snapshot of a running generation, reported to the loading overlay
+export interface GenerationProgress {
+  target: number; // Numbers the run is trying to produce
+  accepted: number;
+  attempts: number;
+  maxAttempts: number; // Attempt budget; the run stops when it is used up
+  rejections: RejectionCounts;
+}
+
+// What generatePhoneNumbers returns: the contacts plus why the run may have fallen short
+export interface GenerationResult {
+  contacts: GeneratedContact[];
+  requested: number;
+  attempts: number; // Sampling attempts used (numbers examined when enumerating)
+  rejections: RejectionCounts;
+  exhausted: boolean; // Fell short because the pattern looked out of unused valid numbers
+}
+
+// Rule a contact breaks when a list is verified after the fact (see verifyContacts)
+export type ViolationKind = 'pattern' | 'frequency' | 'run' | 'sequence' | 'forbidden' | 'duplicate';
+
+export interface ContactViolation {
+  contactId: string;
+  number: string;
+  kind: ViolationKind;
+  detail: string; // Explanation in the report's language, e.g. which digits form the sequence
+}
+
+export interface VerificationReport {
+  checked: number;
+  violations: ContactViolation[]; // In list order; a contact may appear once per broken rule
+  counts: Record<ViolationKind, number>;
+}
+
+// How numbers are written on export/copy: as generated (05...) or E.164 (+9665...)
+export type NumberFormat = 'local' | 'international';
+
+// vCard spec version written on export
+export type VCardVersion = '2.1' | '3.0' | '4.0';
+
+// File formats the list can be exported as, see EXPORTERS in utils/exporters.ts
+export type ExportFormat = 'vcf' | 'csv' | 'json' | 'google-csv' | 'outlook-csv' | 'text';
+
+// Fields of the generic CSV / JSON exports
+export type ExportColumn = 'id' | 'name' | 'number' | 'batch' | 'source' | 'saved' | 'org' | 'note';
+
+export type CSVDelimiter = ',' | ';' | '\t';
+
+// Returns a float in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+// How many new numbers a pattern can still produce; min === max when exact
+export interface PatternCapacity {
+  min: number;
+  max: number;
+  exact: boolean;
+}
+
+// One position of a parsed pattern: a fixed digit, "_" or a bracket class like [035]
+export interface PatternSlot {
+  token: string; // Source text, e.g. "5", "_" or "[2-7]"
+  digits: number[]; // Allowed digits in ascending order
+  isFixed: boolean; // Literal digit; not counted for the digit frequency rule
+}
+
+// National numbering plan for one country's mobile numbers
+export interface NumberingProfile {
+  id: string;
+  name: string; // Arabic display name
+  englishName: string; // Used by English messages of the library and CLI
+  countryCode: string; // Without '+', e.g. '966'
+  trunkPrefix: string; // Dialled before national numbers, '' when the country has none
+  mobilePrefixes: string[]; // Allowed operator prefixes, all of the same length
+  subscriberLength: number; // Digits after the mobile prefix
+  testRanges: string[]; // Local-number prefixes reserved for fiction / testing, used by test-safe mode
+}
+
+// A number read from an imported VCF/CSV file, already in local form
+export interface ImportedEntry {
+  number: string;
+  name?: string;
+}
+
+export interface ImportSummary {
+  entries: ImportedEntry[]; // New, valid numbers
+  total: number; // Numbers found in the file
+  duplicates: number; // Already known, or repeated within the file
+  malformed: number; // Not a valid number for the active profile
+}
+
+// Which lists a new number must not already appear in
+export type DuplicateScope = 'project' | 'all';
+
+// Form settings of one project, restored on reload
+export interface SessionSettings {
+  profileId: string;
+  mobilePrefix: string;
+  pattern: string;
+  count: number | string;
+  contactNamePrefix: string;
+  numberFormat: NumberFormat;
+  vcardVersion: VCardVersion;
+  showAdvanced: boolean;
+  repetitionDensity: number;
+  seedInput: string;
+  enumerationOrder: 'shuffle' | 'ascending';
+  customConstraints: GenerationConstraints | null;
+  forbiddenInput: string;
+  duplicateScope: DuplicateScope;
+  nameTemplate: string; // e.g. "{seq:4} {prefix}"
+  orgTemplate: string; // '' = no ORG field in exports
+  noteTemplate: string; // '' = no NOTE field in exports
+  exportFormat: ExportFormat;
+  exportColumns: ExportColumn[]; // Included columns of the generic CSV / JSON, in file order
+  csvDelimiter: CSVDelimiter;
+  exportChunkSize: number | null; // Contacts per file in a ZIP export, null = one file
+  safeMode: boolean; // Test-safe mode: generate only inside test ranges, stamp exports, no deep links
+  testRangesInput: string; // User test ranges (local prefixes), as typed
+  deepLinkWhitelistInput: string; // Generated numbers whose deep links stay enabled in safe mode, as typed
+}
+
+// One file inside a chunked (ZIP) export, kept so a failed import can be retried chunk by chunk
+export interface ExportChunk {
+  fileName: string; // e.g. "contacts_TEST_part_01_of_08.vcf"
+  firstId: string; // Display id of the first and last contact in the chunk
+  lastId: string;
+  numbers: string[];
+}
+
+// One downloaded file
+export interface ExportRecord {
+  timestamp: number; // Unix ms
+  fileName: string;
+  count: number;
+  chunks?: ExportChunk[]; // Set when the export was split into a ZIP of chunk files
+}
+
+// One generation run (or import into the list) and the contacts it added
+export interface BatchRecord {
+  id: string; // Matches GeneratedContact.batchId
+  number: number; // 1-based, shown as "#3" and used by the {batch} token
+  timestamp: number; // Unix ms
+  source: 'generated' | 'imported';
+  config: GenerationConfig | null; // null for imports and batches from before history was kept
+  options: GenerationOptions | null;
+  seed: number | null;
+  numbers: string[]; // Numbers added by the batch, as created
+  exported: boolean; // Downloaded at least once as part of a file
+}
+
+// An independent contact list with its own settings (one test campaign)
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number; // Unix ms
+  settings: SessionSettings;
+  contacts: GeneratedContact[]; // Including each contact's isSaved flag
+  importedNumbers: string[];
+  exportHistory: ExportRecord[];
+  batches: BatchRecord[]; // Oldest first
+  nextSerial: number; // Never reused, so a deleted contact's name is not given to another number
+}
+
+// Everything persisted between visits; `schemaVersion` drives migrations of older records
+export interface PersistedSession {
+  schemaVersion: number;
+  savedAt: number; // Unix ms
+  activeProjectId: string;
+  projects: Project[];
+}
@@ -0,0 +1,38 @@
+import { BatchRecord, GeneratedContact } from '../types';
+import { createRandomSeed } from './random';
+
+export const createBatchId = (): string => `b_${Date.now().toString(36)}_${createRandomSeed().toString(36)}`;
+
+/**
+ * Maps batch ids to their numbers, for the {batch} token.
+ */
+export const getBatchNumbers = (batches: BatchRecord[]): Map<string, number> => {
+  return new Map(batches.map(batch => [batch.id, batch.number]));
+};
+
+export const getNextBatchNumber = (batches: BatchRecord[]): number => {
+  return batches.reduce((max, batch) => Math.max(max, batch.number), 0) + 1;
+};
+
+/**
+ * Builds the history entry for contacts that were just stamped with `id`.
+ */
+export const createBatchRecord = (
+  id: string,
+  batches: BatchRecord[],
+  contacts: GeneratedContact[],
+  details: Pick<BatchRecord, 'source' | 'config' | 'options' | 'seed' | 'exported'>
+): BatchRecord => ({
+  id,
+  number: getNextBatchNumber(batches),
+  timestamp: contacts[0]?.createdAt ?? Date.now(),
+  numbers: contacts.map(c => c.number),
+  ...details
+});
+
+/**
+ * Contacts of the list that still belong to a batch.
+ */
+export const getBatchContacts = (contacts: GeneratedContact[], batchId: string): GeneratedContact[] => {
+  return contacts.filter(c => c.batchId === batchId);
+};
@@ -0,0 +1,247 @@
+import { GenerationConstraints, GenerationOptions, RejectionReason } from '../types';
+import { ConstraintLimit, formatMessage, MessageLanguage } from './messages';
+
+export const DEFAULT_REPETITION_DENSITY = 0.3;
+
+/**
+ * Maps the repetition density slider onto concrete constraints.
+ * Every 0.1 step tightens or loosens at least one rule, and the default (0.3)
+ * matches the historical "strict" behaviour.
+ */
+export const constraintsFromDensity = (density: number, numUnknowns: number): GenerationConstraints => {
+  const step = Math.round(density * 10);
+
+  if (step >= 9) {
+    // Fully random: no limits at all
+    return { maxDigitFrequency: null, maxRunLength: null, maxSequenceLength: null, forbiddenSubstrings: [] };
+  }
+
+  // Share of the free slots a single digit may take, from 25% (0.1) to 60% (0.8)
+  const frequencyShare = 0.2 + step * 0.05;
+
+  return {
+    maxDigitFrequency: Math.max(2, Math.ceil(numUnknowns * frequencyShare)),
+    // 1 = no '11' until 0.4, then progressively longer runs
+    maxRunLength: step <= 4 ? 1 : step <= 6 ? 2 : 3,
+    // 2 = no '123' / '321' until 0.3, then progressively longer sequences
+    maxSequenceLength: step <= 3 ? 2 : step <= 5 ? 3 : step <= 7 ? 4 : 5,
+    forbiddenSubstrings: []
+  };
+};
+
+/**
+ * Returns the constraints the generator should enforce: explicit ones win,
+ * otherwise they are derived from the density preset.
+ */
+export const resolveConstraints = (numUnknowns: number, options?: GenerationOptions): GenerationConstraints => {
+  if (options?.constraints) return options.constraints;
+  return constraintsFromDensity(options?.repetitionDensity ?? DEFAULT_REPETITION_DENSITY, numUnknowns);
+};
+
+/**
+ * Validates user-edited constraints. Returns an error message (Arabic by default) or null.
+ */
+export const validateConstraints = (
+  constraints: GenerationConstraints,
+  language: MessageLanguage = 'ar'
+): string | null => {
+  const limits: ConstraintLimit[] = ['maxDigitFrequency', 'maxRunLength', 'maxSequenceLength'];
+  for (const limit of limits) {
+    const value = constraints[limit];
+    if (value !== null && (!Number.isInteger(value) || value < 1)) {
+      return formatMessage(language, 'constraintNotPositive', { limit });
+    }
+  }
+
+  const invalid = constraints.forbiddenSubstrings.filter(s => !/^[0-9]+$/.test(s));
+  if (invalid.length > 0) {
+    return formatMessage(language, 'forbiddenNotDigits', { values: invalid });
+  }
+
+  return null;
+};
+
+/**
+ * Incremental state used to check constraints digit by digit while a number is built.
+ * Frequency counts the free (generated) digits only. Runs and sequences are measured over
+ * the whole number, so fixed digits between free slots count too (…1_3… with a 2 is the
+ * sequence 123); a stretch made of fixed digits only is left alone, the pattern put it there.
+ * Forbidden substrings are matched against the full number including fixed digits.
+ */
+export interface ConstraintState {
+  counts: number[]; // Occurrences of each digit among the free slots
+  last: number; // Last digit of the number so far, -1 before the first one
+  lastFree: boolean; // Whether that digit was generated
+  run: number; // Length of the current run of identical digits, capped one above the limit
+  runFree: boolean; // The current run contains a generated digit
+  sequence: number; // Length of the current +1/-1 sequence, capped one above the limit
+  sequenceFree: boolean; // The current sequence contains a generated digit
+  direction: number; // +1 ascending, -1 descending, 0 no sequence yet
+  tail: string; // Trailing characters of the full number, long enough for substring checks
+}
+
+export const createConstraintState = (): ConstraintState => ({
+  counts: new Array<number>(10).fill(0),
+  last: -1,
+  lastFree: false,
+  run: 0,
+  runFree: false,
+  sequence: 0,
+  sequenceFree: false,
+  direction: 0,
+  tail: ''
+});
+
+const longestForbidden = (constraints: GenerationConstraints): number => {
+  return constraints.forbiddenSubstrings.reduce((max, s) => Math.max(max, s.length), 0);
+};
+
+const appendTail = (tail: string, char: string, constraints: GenerationConstraints): string => {
+  const keep = longestForbidden(constraints) - 1;
+  if (keep <= 0) return '';
+  const next = tail + char;
+  return next.length > keep ? next.slice(next.length - keep) : next;
+};
+
+const hitsForbidden = (tail: string, char: string, constraints: GenerationConstraints): boolean => {
+  if (constraints.forbiddenSubstrings.length === 0) return false;
+  const window = tail + char;
+  return constraints.forbiddenSubstrings.some(s => window.endsWith(s));
+};
+
+// Lengths beyond limit + 1 behave the same, capping them keeps the state space small
+const capLength = (length: number, limit: number | null): number => (limit === null ? length : Math.min(length, limit + 1));
+
+// [run length, contains a generated digit] after appending d
+const nextRun = (state: ConstraintState, d: number, isFree: boolean): [number, boolean] => {
+  return d === state.last ? [state.run + 1, state.runFree || isFree] : [1, isFree];
+};
+
+// [sequence length, direction, contains a generated digit] after appending d
+const nextSequence = (state: ConstraintState, d: number, isFree: boolean): [number, number, boolean] => {
+  const step = state.last < 0 ? 0 : d - state.last;
+  if (step !== 1 && step !== -1) return [1, 0, isFree];
+  if (step === state.direction) return [state.sequence + 1, step, state.sequenceFree || isFree];
+  return [2, step, state.lastFree || isFree];
+};
+
+/**
+ * Returns the first rule a digit would break (checked in the order below), or null.
+ * `isFree` tells a generated digit from a fixed pattern digit.
+ */
+export const findDigitRejection = (
+  state: ConstraintState,
+  d: number,
+  isFree: boolean,
+  constraints: GenerationConstraints
+): RejectionReason | null => {
+  // 1. Frequency Check (free digits only)
+  if (isFree && constraints.maxDigitFrequency !== null && state.counts[d] >= constraints.maxDigitFrequency) {
+    return 'frequency';
+  }
+
+  // 2. Run Check (identical digits in a row, e.g. '111')
+  if (constraints.maxRunLength !== null) {
+    const [run, runFree] = nextRun(state, d, isFree);
+    if (runFree && run > constraints.maxRunLength) return 'run';
+  }
+
+  // 3. Sequence Check (e.g. '123' ascending, '321' descending)
+  if (constraints.maxSequenceLength !== null) {
+    const [sequence, , sequenceFree] = nextSequence(state, d, isFree);
+    if (sequenceFree && sequence > constraints.maxSequenceLength) return 'sequence';
+  }
+
+  // 4. Forbidden substrings (full number)
+  if (hitsForbidden(state.tail, d.toString(), constraints)) return 'forbidden';
+
+  return null;
+};
+
+const appendDigit = (
+  state: ConstraintState,
+  d: number,
+  isFree: boolean,
+  constraints: GenerationConstraints
+): ConstraintState | null => {
+  if (findDigitRejection(state, d, isFree, constraints) !== null) return null;
+
+  const [run, runFree] = nextRun(state, d, isFree);
+  const [sequence, direction, sequenceFree] = nextSequence(state, d, isFree);
+  const counts = isFree ? state.counts.slice() : state.counts;
+  if (isFree) counts[d]++;
+  return {
+    counts,
+    last: d,
+    lastFree: isFree,
+    run: capLength(run, constraints.maxRunLength),
+    runFree,
+    sequence: capLength(sequence, constraints.maxSequenceLength),
+    sequenceFree,
+    direction,
+    tail: appendTail(state.tail, d.toString(), constraints)
+  };
+};
+
+/**
+ * Appends a fixed pattern digit. Returns null if it extends a run or sequence that
+ * contains a generated digit past its limit, or completes a forbidden substring.
+ */
+export const appendFixedDigit = (
+  state: ConstraintState,
+  char: string,
+  constraints: GenerationConstraints
+): ConstraintState | null => appendDigit(state, Number(char), false, constraints);
+
+/**
+ * Appends a free digit. Returns null if any constraint would be broken.
+ */
+export const appendFreeDigit = (
+  state: ConstraintState,
+  d: number,
+  constraints: GenerationConstraints
+): ConstraintState | null => appendDigit(state, d, true, constraints);
+
+/**
+ * Builds a function that maps (pattern index, state) to a memo key, so states with
+ * the same future collapse into one entry during counting.
+ * Keys are packed into a single number when they fit, which keeps Map lookups cheap.
+ */
+export const createStateKeyEncoder = (
+  constraints: GenerationConstraints,
+  numUnknowns: number,
+  patternLength: number
+): ((index: number, state: ConstraintState) => number | string) => {
+  const { maxDigitFrequency, maxRunLength, maxSequenceLength } = constraints;
+
+  // Components that can never block a future digit are left out of the key
+  const countBase = maxDigitFrequency === null ? 1 : Math.min(maxDigitFrequency, numUnknowns) + 1;
+  // Lengths are capped at limit + 1; each flag doubles its component
+  const runBase = maxRunLength === null ? 1 : (maxRunLength + 2) * 2;
+  const sequenceBase = maxSequenceLength === null ? 1 : (maxSequenceLength + 2) * 2;
+  const directionBase = maxSequenceLength === null ? 1 : 3 * 2;
+  const tailLength = Math.max(0, longestForbidden(constraints) - 1);
+  const tailBase = 2 * Math.pow(10, tailLength);
+
+  const radix = Math.pow(countBase, 10) * 11 * runBase * sequenceBase * directionBase * tailBase * (patternLength + 1);
+  if (radix > Number.MAX_SAFE_INTEGER) {
+    return (index, state) =>
+      `${index}|${state.counts.join(',')}|${state.last}|${state.lastFree}|${state.run}|${state.runFree}|`
+      + `${state.sequence}|${state.sequenceFree}|${state.direction}|${state.tail}`;
+  }
+
+  return (index, state) => {
+    let key = 0;
+    if (countBase > 1) {
+      for (let d = 9; d >= 0; d--) key = key * countBase + state.counts[d];
+    }
+    key = key * 11 + (state.last + 1);
+    if (runBase > 1) key = key * runBase + state.run * 2 + Number(state.runFree);
+    if (sequenceBase > 1) {
+      key = key * sequenceBase + state.sequence * 2 + Number(state.sequenceFree);
+      key = key * directionBase + (state.direction + 1) * 2 + Number(state.lastFree);
+    }
+    if (tailLength > 0) key = key * tailBase + Number('1' + state.tail);
+    return key * (patternLength + 1) + index;
+  };
+};
@@ -0,0 +1,95 @@
+import { GeneratedContact } from '../types';
+import { renderTemplate, TemplateContext } from './template';
+
+/**
+ * Serials are shown zero-padded to four digits: 1 -> "0001".
+ */
+export const formatSerial = (serial: number): string => serial.toString().padStart(4, '0');
+
+// Project-level values shared by every contact's template context
+export interface NamingContext {
+  prefix: string;
+  pattern: string;
+}
+
+/**
+ * Template context of a contact that is already in a list.
+ */
+export const createContactContext = (
+  contact: GeneratedContact,
+  naming: NamingContext,
+  batchNumbers: Map<string, number>
+): TemplateContext => ({
+  serial: contact.serial ?? 0,
+  prefix: naming.prefix,
+  batch: batchNumbers.get(contact.batchId ?? '') ?? 0,
+  date: new Date(contact.createdAt ?? Date.now()),
+  number: contact.number,
+  pattern: naming.pattern
+});
+
+export interface StampOptions {
+  firstSerial: number; // Serial of the first contact; the project's next unused serial
+  batchId?: string; // Omitted for contacts added by hand, which belong to no batch
+  batch: number; // Number of the new batch, for the {batch} token (0 without a batch)
+  nameTemplate: string;
+  naming: NamingContext;
+  keepNames?: boolean; // Keep non-empty names (imported contacts) instead of the template
+}
+
+/**
+ * Gives contacts that join a list their permanent serial, id, name, batch and creation time.
+ * These are never rewritten afterwards, except by an explicit renumberContacts.
+ */
+export const stampNewContacts = (contacts: GeneratedContact[], options: StampOptions): GeneratedContact[] => {
+  const createdAt = Date.now();
+  return contacts.map((c, index) => {
+    const serial = options.firstSerial + index;
+    const name = options.keepNames && c.name
+      ? c.name
+      : renderTemplate(options.nameTemplate, {
+        ...options.naming,
+        serial,
+        batch: options.batch,
+        date: new Date(createdAt),
+        number: c.number
+      });
+    return { ...c, id: formatSerial(serial), serial, name, batchId: options.batchId, createdAt };
+  });
+};
+
+export const sortByNumber = (contacts: GeneratedContact[]): GeneratedContact[] => {
+  return [...contacts].sort((a, b) => a.number.localeCompare(b.number));
+};
+
+/**
+ * Explicit renumbering: sorts by number, rewrites serials and ids as 0001, 0002...
+ * and renames every contact with the template. Names already saved to a phone
+ * will no longer match afterwards.
+ */
+export const renumberContacts = (
+  contacts: GeneratedContact[],
+  nameTemplate: string,
+  naming: NamingContext,
+  batchNumbers: Map<string, number>
+): GeneratedContact[] => {
+  return sortByNumber(contacts).map((c, index) => {
+    const renumbered = { ...c, id: formatSerial(index + 1), serial: index + 1 };
+    return { ...renumbered, name: renderTemplate(nameTemplate, createContactContext(renumbered, naming, batchNumbers)) };
+  });
+};
+
+/**
+ * Renames only the contacts in `ids` with the template; serials, ids and batches stay as they are.
+ */
+export const renameContacts = (
+  contacts: GeneratedContact[],
+  ids: Set<string>,
+  nameTemplate: string,
+  naming: NamingContext,
+  batchNumbers: Map<string, number>
+): GeneratedContact[] => {
+  return contacts.map(c => (ids.has(c.id)
+    ? { ...c, name: renderTemplate(nameTemplate, createContactContext(c, naming, batchNumbers)) }
+    : c));
+};
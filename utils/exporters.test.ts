@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedContact } from '../types';
+import { EXPORTERS, getChunkFileName, splitIntoChunks } from './exporters';
+
+const contacts: GeneratedContact[] = Array.from({ length: 5 }, (_, i) => ({
+  id: `000${i + 1}`,
+  number: `055000000${i}`,
+  name: `000${i + 1} TEST`
+}));
+
+const BOM = '\uFEFF';
+
+const tricky: GeneratedContact = { id: '0001', number: '0551234567', name: 'TEST, "A"', batchId: 'b1', source: 'manual', isSaved: true };
+
+describe('EXPORTERS.csv', () => {
+  it('writes a BOM, CRLF line endings and the default columns', () => {
+    expect(EXPORTERS.csv.serialize(contacts.slice(0, 1))).toBe(`${BOM}id,name,number\r\n0001,0001 TEST,0550000000\r\n`);
+  });
+
+  it('quotes fields with delimiters, quotes and surrounding spaces', () => {
+    const csv = EXPORTERS.csv.serialize([tricky, { ...tricky, name: ' padded' }], { columns: ['name'] });
+    expect(csv).toBe(`${BOM}name\r\n"TEST, ""A"""\r\n" padded"\r\n`);
+  });
+
+  it('uses the chosen delimiter and columns', () => {
+    const csv = EXPORTERS.csv.serialize([tricky], {
+      delimiter: ';',
+      columns: ['number', 'batch', 'source', 'saved', 'note'],
+      numberFormat: 'international',
+      batchNumbers: new Map([['b1', 3]]),
+      extraFields: () => ({ note: 'a;b' })
+    });
+    expect(csv).toBe(`${BOM}number;batch;source;saved;note\r\n+966551234567;3;manual;yes;"a;b"\r\n`);
+  });
+});
+
+describe('EXPORTERS.json', () => {
+  it('writes one object per contact with the chosen columns', () => {
+    expect(JSON.parse(EXPORTERS.json.serialize([tricky], { columns: ['id', 'name'] }))).toEqual([{ id: '0001', name: 'TEST, "A"' }]);
+  });
+});
+
+describe('Google and Outlook CSV', () => {
+  const options = { extraFields: () => ({ org: 'QA', note: 'n', categories: ['TEST'] }) };
+
+  it('adds every contact to My Contacts plus its categories as labels', () => {
+    const lines = EXPORTERS['google-csv'].serialize(contacts.slice(0, 1), options).split('\r\n');
+    expect(lines[0]).toBe(`${BOM}Name,Given Name,Organization 1 - Name,Notes,Group Membership,Phone 1 - Type,Phone 1 - Value`);
+    expect(lines[1]).toBe('0001 TEST,0001 TEST,QA,n,* myContacts ::: TEST,Mobile,0550000000');
+  });
+
+  it('uses the Outlook header names', () => {
+    const lines = EXPORTERS['outlook-csv'].serialize(contacts.slice(0, 1), options).split('\r\n');
+    expect(lines[0]).toBe(`${BOM}First Name,Last Name,Company,Mobile Phone,Notes,Categories`);
+    expect(lines[1]).toBe('0001 TEST,,QA,0550000000,n,TEST');
+  });
+});
+
+describe('EXPORTERS.text', () => {
+  it('writes one number per line', () => {
+    expect(EXPORTERS.text.serialize(contacts.slice(0, 2))).toBe('0550000000\n0550000001\n');
+  });
+});
+
+describe('getChunkFileName', () => {
+  it('pads part numbers to the width of the total', () => {
+    expect(getChunkFileName('contacts_TEST_full_1', 0, 8, 'vcf')).toBe('contacts_TEST_full_1_part_01_of_08.vcf');
+    expect(getChunkFileName('contacts', 11, 120, 'csv')).toBe('contacts_part_012_of_120.csv');
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('keeps order and records each chunk range', () => {
+    const parts = splitIntoChunks(contacts, 2, 'contacts', 'vcf');
+    expect(parts.map(p => p.chunk)).toEqual([
+      { fileName: 'contacts_part_01_of_03.vcf', firstId: '0001', lastId: '0002', numbers: ['0550000000', '0550000001'] },
+      { fileName: 'contacts_part_02_of_03.vcf', firstId: '0003', lastId: '0004', numbers: ['0550000002', '0550000003'] },
+      { fileName: 'contacts_part_03_of_03.vcf', firstId: '0005', lastId: '0005', numbers: ['0550000004'] }
+    ]);
+    expect(parts.flatMap(p => p.contacts)).toEqual(contacts);
+  });
+});
@@ -0,0 +1,165 @@
+import { CSVDelimiter, ExportChunk, ExportColumn, ExportFormat, GeneratedContact } from '../types';
+import { formatContactNumber } from './phone';
+import { generateVCF, VCFOptions } from './vcf';
+
+export interface ExportOptions extends VCFOptions {
+  columns?: ExportColumn[]; // Generic CSV / JSON only, defaults to DEFAULT_EXPORT_COLUMNS
+  delimiter?: CSVDelimiter; // Generic CSV only, defaults to ','
+  batchNumbers?: Map<string, number>; // Fills the batch column
+}
+
+export interface ContactExporter {
+  label: string; // Shown in the format picker
+  extension: string; // Without the dot
+  mimeType: string;
+  serialize: (contacts: GeneratedContact[], options?: ExportOptions) => string;
+}
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['id', 'name', 'number'];
+
+// Arabic labels for the column picker, which lists the columns in this order
+export const EXPORT_COLUMN_LABELS: Record<ExportColumn, string> = {
+  id: 'التسلسل',
+  name: 'الاسم',
+  number: 'الرقم',
+  batch: 'الدفعة',
+  source: 'المصدر',
+  saved: 'محفوظ',
+  org: 'ORG',
+  note: 'NOTE'
+};
+
+const CRLF = '\r\n';
+// Lets Excel detect UTF-8, so Arabic names are not garbled; importers ignore it
+const BOM = '\uFEFF';
+
+/**
+ * Quotes a CSV field when it contains the delimiter, a quote, a line break
+ * or surrounding spaces (RFC 4180); embedded quotes are doubled.
+ */
+const escapeCSVField = (value: string, delimiter: string): string => {
+  if (!value.includes(delimiter) && !/["\r\n]|^\s|\s$/.test(value)) return value;
+  return `"${value.replace(/"/g, '""')}"`;
+};
+
+const toCSV = (rows: string[][], delimiter: string = ','): string => {
+  return BOM + rows.map(row => row.map(value => escapeCSVField(value, delimiter)).join(delimiter)).join(CRLF) + CRLF;
+};
+
+const getNumber = (contact: GeneratedContact, options?: ExportOptions): string => {
+  return formatContactNumber(contact, options?.numberFormat ?? 'local', options?.fallbackProfileId);
+};
+
+const getColumnValue = (contact: GeneratedContact, column: ExportColumn, options?: ExportOptions): string => {
+  switch (column) {
+    case 'id':
+      return contact.id;
+    case 'name':
+      return contact.name;
+    case 'number':
+      return getNumber(contact, options);
+    case 'batch':
+      return String(options?.batchNumbers?.get(contact.batchId ?? '') ?? '');
+    case 'source':
+      return contact.source ?? 'generated';
+    case 'saved':
+      return contact.isSaved ? 'yes' : 'no';
+    case 'org':
+      return options?.extraFields?.(contact).org ?? '';
+    case 'note':
+      return options?.extraFields?.(contact).note ?? '';
+  }
+};
+
+const serializeCSV = (contacts: GeneratedContact[], options?: ExportOptions): string => {
+  const columns = options?.columns?.length ? options.columns : DEFAULT_EXPORT_COLUMNS;
+  return toCSV(
+    [columns, ...contacts.map(c => columns.map(column => getColumnValue(c, column, options)))],
+    options?.delimiter
+  );
+};
+
+const serializeJSON = (contacts: GeneratedContact[], options?: ExportOptions): string => {
+  const columns = options?.columns?.length ? options.columns : DEFAULT_EXPORT_COLUMNS;
+  const records = contacts.map(c => Object.fromEntries(columns.map(column => [column, getColumnValue(c, column, options)])));
+  return JSON.stringify(records, null, 2) + '\n';
+};
+
+/**
+ * Google Contacts import format: the whole name goes into Name and Given Name,
+ * and every contact joins "My Contacts" so it is visible after the import; categories become labels.
+ */
+const serializeGoogleCSV = (contacts: GeneratedContact[], options?: ExportOptions): string => {
+  const header = ['Name', 'Given Name', 'Organization 1 - Name', 'Notes', 'Group Membership', 'Phone 1 - Type', 'Phone 1 - Value'];
+  return toCSV([
+    header,
+    ...contacts.map(c => {
+      const extra = options?.extraFields?.(c) ?? {};
+      const groups = ['* myContacts', ...(extra.categories ?? [])].join(' ::: ');
+      return [c.name, c.name, extra.org ?? '', extra.note ?? '', groups, 'Mobile', getNumber(c, options)];
+    })
+  ]);
+};
+
+/**
+ * Outlook import format; Outlook maps its columns by these exact header names.
+ */
+const serializeOutlookCSV = (contacts: GeneratedContact[], options?: ExportOptions): string => {
+  const header = ['First Name', 'Last Name', 'Company', 'Mobile Phone', 'Notes', 'Categories'];
+  return toCSV([
+    header,
+    ...contacts.map(c => {
+      const extra = options?.extraFields?.(c) ?? {};
+      return [c.name, '', extra.org ?? '', getNumber(c, options), extra.note ?? '', (extra.categories ?? []).join(';')];
+    })
+  ]);
+};
+
+// One number per line, for pasting into other tools
+const serializeText = (contacts: GeneratedContact[], options?: ExportOptions): string => {
+  return contacts.map(c => getNumber(c, options) + '\n').join('');
+};
+
+export const EXPORTERS: Record<ExportFormat, ContactExporter> = {
+  vcf: { label: 'vCard (VCF)', extension: 'vcf', mimeType: 'text/vcard;charset=utf-8', serialize: generateVCF },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8', serialize: serializeCSV },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8', serialize: serializeJSON },
+  'google-csv': { label: 'Google CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8', serialize: serializeGoogleCSV },
+  'outlook-csv': { label: 'Outlook CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8', serialize: serializeOutlookCSV },
+  text: { label: 'نص (رقم في كل سطر)', extension: 'txt', mimeType: 'text/plain;charset=utf-8', serialize: serializeText }
+};
+
+/**
+ * Name of one chunk file: `<stem>_part_01_of_08.<ext>`. Part numbers are zero-padded
+ * to the width of the total (at least two digits) so the files sort in order.
+ */
+export const getChunkFileName = (fileStem: string, index: number, total: number, extension: string): string => {
+  const width = Math.max(2, total.toString().length);
+  const pad = (n: number) => n.toString().padStart(width, '0');
+  return `${fileStem}_part_${pad(index + 1)}_of_${pad(total)}.${extension}`;
+};
+
+/**
+ * Splits contacts into consecutive chunks of `chunkSize`, recording each chunk's
+ * file name and range.
+ */
+export const splitIntoChunks = (
+  contacts: GeneratedContact[],
+  chunkSize: number,
+  fileStem: string,
+  extension: string
+): { chunk: ExportChunk; contacts: GeneratedContact[] }[] => {
+  const total = Math.ceil(contacts.length / chunkSize);
+  return Array.from({ length: total }, (_, index) => {
+    const part = contacts.slice(index * chunkSize, (index + 1) * chunkSize);
+    return {
+      chunk: {
+        fileName: getChunkFileName(fileStem, index, total, extension),
+        firstId: part[0].id,
+        lastId: part[part.length - 1].id,
+        numbers: part.map(c => c.number)
+      },
+      contacts: part
+    };
+  });
+};
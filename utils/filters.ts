@@ -0,0 +1,61 @@
+import { GeneratedContact, PatternSlot } from '../types';
+import { parsePattern } from './pattern';
+import { toAsciiDigits } from './phone';
+
+// Filters of the preview list; empty values match everything
+export interface ContactFilter {
+  query: string; // Part of the number or the name
+  status: 'all' | 'saved' | 'unsaved';
+  batchId: string; // '' = any batch
+  digitPattern: string; // Pattern grammar ("7_7", "[05]00"), matched anywhere in the number
+}
+
+export const EMPTY_FILTER: ContactFilter = { query: '', status: 'all', batchId: '', digitPattern: '' };
+
+export const isFilterActive = (filter: ContactFilter): boolean => {
+  return filter.query.trim() !== '' || filter.status !== 'all' || filter.batchId !== '' || filter.digitPattern.trim() !== '';
+};
+
+/**
+ * Checks the digit pattern of a filter. Returns the Arabic parse error, or null.
+ */
+export const validateDigitFilter = (digitPattern: string): string | null => {
+  return digitPattern.trim() ? parsePattern(toAsciiDigits(digitPattern.trim())).error : null;
+};
+
+const matchesSlotsAt = (number: string, slots: PatternSlot[], start: number): boolean => {
+  return slots.every((slot, offset) => slot.digits.includes(Number(number[start + offset])));
+};
+
+const containsSlots = (number: string, slots: PatternSlot[]): boolean => {
+  for (let start = 0; start + slots.length <= number.length; start++) {
+    if (matchesSlotsAt(number, slots, start)) return true;
+  }
+  return false;
+};
+
+/**
+ * Applies every filter. An invalid digit pattern is ignored rather than hiding the whole list.
+ */
+export const filterContacts = (contacts: GeneratedContact[], filter: ContactFilter): GeneratedContact[] => {
+  if (!isFilterActive(filter)) return contacts;
+
+  const query = toAsciiDigits(filter.query.trim()).toLowerCase();
+  // Only number-like queries ("055 12", "055-12") are matched against the number
+  const queryDigits = /^[\d\s\-+()]+$/.test(query) ? query.replace(/\D/g, '') : '';
+  const slots = filter.digitPattern.trim() ? parsePattern(toAsciiDigits(filter.digitPattern.trim())).slots : null;
+
+  return contacts.filter(c => {
+    if (filter.status === 'saved' && !c.isSaved) return false;
+    if (filter.status === 'unsaved' && c.isSaved) return false;
+    if (filter.batchId && c.batchId !== filter.batchId) return false;
+    if (slots && slots.length > 0 && !containsSlots(c.number, slots)) return false;
+    if (query) {
+      const inName = c.name.toLowerCase().includes(query);
+      // Digits typed with spaces or dashes still match the stored number
+      const inNumber = queryDigits !== '' && c.number.includes(queryDigits);
+      if (!inName && !inNumber) return false;
+    }
+    return true;
+  });
+};
@@ -0,0 +1,34 @@
+import { createGenerationRun } from './generator';
+import { GenerationWorkerRequest, GenerationWorkerResponse } from './generationWorker';
+
+// Attempts per slice; small enough that progress updates and cancel requests stay responsive
+const ATTEMPTS_PER_STEP = 2000;
+
+let cancelRequested = false;
+
+const respond = (response: GenerationWorkerResponse) => self.postMessage(response);
+
+// Yields to the event loop so a queued 'cancel' message can be handled between slices
+const nextTick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+self.onmessage = async (event: MessageEvent<GenerationWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    cancelRequested = true;
+    return;
+  }
+
+  cancelRequested = false;
+  try {
+    const run = createGenerationRun(request.config, request.options, request.excludeSet);
+    let finished = false;
+    while (!finished && !cancelRequested) {
+      finished = run.step(ATTEMPTS_PER_STEP);
+      respond({ type: 'progress', progress: run.getProgress() });
+      await nextTick();
+    }
+    respond({ type: 'done', result: run.getResult(), cancelled: !finished });
+  } catch (err) {
+    respond({ type: 'error', message: (err instanceof Error && err.message) || 'حدث خطأ غير متوقع أثناء التوليد.' });
+  }
+};
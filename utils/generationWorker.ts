@@ -0,0 +1,58 @@
+import { GenerationConfig, GenerationOptions, GenerationProgress, GenerationResult } from '../types';
+
+export type GenerationWorkerRequest =
+  | { type: 'start'; config: GenerationConfig; options: GenerationOptions; excludeSet: Set<string> }
+  | { type: 'cancel' };
+
+export type GenerationWorkerResponse =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'done'; result: GenerationResult; cancelled: boolean }
+  | { type: 'error'; message: string };
+
+export interface GenerationOutcome {
+  result: GenerationResult;
+  cancelled: boolean; // True when the user stopped the run; the result then holds the partial batch
+}
+
+export interface GenerationTask {
+  result: Promise<GenerationOutcome>;
+  cancel: () => void;
+}
+
+/**
+ * Runs generatePhoneNumbers in a Web Worker so large or strict runs do not freeze the page.
+ * `onProgress` receives a snapshot after every slice of attempts; `cancel` stops the run
+ * and resolves with the numbers accepted so far.
+ */
+export const runGenerationInWorker = (
+  config: GenerationConfig,
+  options: GenerationOptions,
+  excludeSet: Set<string>,
+  onProgress: (progress: GenerationProgress) => void
+): GenerationTask => {
+  const worker = new Worker(new URL('./generation.worker.ts', import.meta.url), { type: 'module' });
+  const post = (request: GenerationWorkerRequest) => worker.postMessage(request);
+
+  const result = new Promise<GenerationOutcome>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<GenerationWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress(response.progress);
+        return;
+      }
+      worker.terminate();
+      if (response.type === 'done') {
+        resolve({ result: response.result, cancelled: response.cancelled });
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      worker.terminate();
+      reject(new Error(event.message || 'تعذر تشغيل عملية التوليد.'));
+    };
+  });
+
+  post({ type: 'start', config, options, excludeSet });
+  return { result, cancel: () => post({ type: 'cancel' }) };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { countValidNumbers, enumeratePhoneNumbers, generatePhoneNumbers } from './generator';
+
+describe('countValidNumbers', () => {
+  it.each(['0512345___', '05123[13579]_7_', '0512_3_4_5'])('matches the enumeration of %s', pattern => {
+    for (const repetitionDensity of [0, 0.3, 1]) {
+      const options = { repetitionDensity };
+      const count = enumeratePhoneNumbers(pattern, options).length;
+      expect(countValidNumbers(pattern, options)).toEqual({ min: count, max: count, exact: true });
+    }
+  });
+
+  it('only subtracts excluded numbers the pattern could produce', () => {
+    const options = { repetitionDensity: 0.3 };
+    const [first, second] = enumeratePhoneNumbers('0512345___', options);
+    const total = countValidNumbers('0512345___', options).max;
+    expect(countValidNumbers('0512345___', options, new Set([first, second, '0599999999'])).max).toBe(total - 2);
+  });
+
+  it('returns bounds around what the generator can produce', () => {
+    const capacity = countValidNumbers('05________', { repetitionDensity: 0.3 });
+    expect(capacity.min).toBeLessThanOrEqual(capacity.max);
+    expect(capacity.max).toBeLessThanOrEqual(10 ** 8);
+  });
+});
+
+describe('generatePhoneNumbers', () => {
+  const config = { pattern: '05________', count: 50, contactNamePrefix: 'TEST' };
+
+  it('repeats the same numbers for the same seed', () => {
+    const numbers = (seed: number) => generatePhoneNumbers(config, { repetitionDensity: 0.3, seed }).contacts.map(c => c.number);
+    expect(numbers(42)).toEqual(numbers(42));
+    expect(numbers(42)).not.toEqual(numbers(43));
+  });
+
+  it.each(['05________', '0512345___'])('skips excluded numbers without changing the draws for %s', pattern => {
+    const options = { repetitionDensity: 0.3, seed: 9 };
+    const numbers = generatePhoneNumbers({ ...config, pattern, count: 20 }, options).contacts.map(c => c.number);
+    const excluded = [numbers[0], numbers[7], numbers[13]];
+    const result = generatePhoneNumbers({ ...config, pattern, count: 17 }, options, new Set(excluded));
+    expect(result.contacts.map(c => c.number)).toEqual(numbers.filter(n => !excluded.includes(n)));
+  });
+
+  it('stops short when the pattern runs out of numbers', () => {
+    const options = { repetitionDensity: 0.3, seed: 1 };
+    const available = countValidNumbers('0512345___', options).max;
+    const result = generatePhoneNumbers({ ...config, pattern: '0512345___', count: available + 5 }, options);
+    expect(result.contacts).toHaveLength(available);
+    expect(result.exhausted).toBe(true);
+  });
+});
@@ -1,175 +1,615 @@
-import { GeneratedContact, GenerationOptions, GenerationConfig } from '../types';
+import {
+  GeneratedContact,
+  GenerationOptions,
+  GenerationConfig,
+  GenerationConstraints,
+  GenerationProgress,
+  GenerationResult,
+  PatternCapacity,
+  PatternSlot,
+  RandomSource,
+  RejectionCounts,
+  RejectionReason
+} from '../types';
+import { createRandomSeed, createSeededRandom, randomInt } from './random';
+import {
+  ConstraintState,
+  appendFixedDigit,
+  appendFreeDigit,
+  createStateKeyEncoder,
+  createConstraintState,
+  findDigitRejection,
+  resolveConstraints,
+  validateConstraints
+} from './constraints';
+import { parsePattern, requirePatternSlots, splitPatternTokens } from './pattern';
+import { detectMobilePrefix, getLocalLength, getLockedPrefix, getProfile } from './profiles';
+import { formatMessage, MessageLanguage, REJECTION_PHRASES } from './messages';
 
 /**
- * Validates the pattern input.
- * Strictly enforces 10 slots.
+ * Checks the layout rules every pattern and every complete number share:
+ * allowed characters, valid classes, the profile's length and a mobile prefix.
  */
-export const validatePattern = (pattern: string, options?: GenerationOptions): string | null => {
+const validatePatternLayout = (
+  pattern: string,
+  options: GenerationOptions | undefined,
+  language: MessageLanguage
+): string | null => {
   if (!pattern) {
-    return "يرجى إدخال نمط الرقم.";
+    return formatMessage(language, 'patternEmpty');
   }
 
-  // Check strict length of 10
-  if (pattern.length !== 10) {
-    return `طول النمط غير صحيح (${pattern.length}/10). يجب أن يتكون من 10 خانات بالضبط.`;
+  // Report every stray character at once, classes are checked by the parser below
+  const invalidChars = splitPatternTokens(pattern).filter(t => !t.startsWith('[') && !/^[0-9_\]]$/.test(t));
+  if (invalidChars.length > 0) {
+    return formatMessage(language, 'patternInvalidChars', { chars: Array.from(new Set(invalidChars)) });
   }
 
-  const invalidChars = pattern.match(/[^0-9_]/g);
-  if (invalidChars) {
-    const uniqueInvalid = Array.from(new Set(invalidChars)).join(' ');
-    return `النمط يحتوي على رموز غير مسموحة: [ ${uniqueInvalid} ]. يرجى استخدام الأرقام والرمز (_) فقط.`;
+  const parsed = parsePattern(pattern, language);
+  if (parsed.error !== null) {
+    return parsed.error;
   }
 
-  if (!pattern.includes('_')) {
-    return "لا توجد خانات مجهولة للتوليد. يرجى استخدام الرمز (_) لتحديد الخانات المتغيرة.";
+  // Check strict length for the profile (10 for Saudi numbers)
+  const profile = getProfile(options?.profileId);
+  const expectedLength = getLocalLength(profile);
+  if (parsed.slots.length !== expectedLength) {
+    return formatMessage(language, 'patternLength', { actual: parsed.slots.length, expected: expectedLength, profile });
+  }
+
+  if (detectMobilePrefix(profile, pattern) === null) {
+    const prefixes = profile.mobilePrefixes.map(prefix => getLockedPrefix(profile, prefix));
+    return formatMessage(language, 'patternPrefix', { prefixes, profile });
+  }
+
+  return null;
+};
+
+/**
+ * Validates the pattern input against the active numbering profile (options.profileId).
+ * Strictly enforces the profile's slot count; a bracket class such as [035] counts as one slot.
+ */
+export const validatePattern = (
+  pattern: string,
+  options?: GenerationOptions,
+  language: MessageLanguage = 'ar'
+): string | null => {
+  const layoutError = validatePatternLayout(pattern, options, language);
+  if (layoutError) {
+    return layoutError;
+  }
+
+  if (requirePatternSlots(pattern).every(slot => slot.isFixed)) {
+    return formatMessage(language, 'patternNoUnknowns');
+  }
+
+  if (options?.constraints) {
+    return validateConstraints(options.constraints, language);
+  }
+
+  return null;
+};
+
+/**
+ * Checks one complete, hand-entered number (already in local form) with the same
+ * layout rules as patterns, and against the duplicate set.
+ */
+export const validateContactNumber = (
+  number: string,
+  options?: GenerationOptions,
+  excludeSet?: Set<string>,
+  language: MessageLanguage = 'ar'
+): string | null => {
+  if (!/^[0-9]*$/.test(number)) {
+    return formatMessage(language, 'numberDigitsOnly');
+  }
+
+  const layoutError = validatePatternLayout(number, options, language);
+  if (layoutError) {
+    return layoutError;
+  }
+
+  if (excludeSet?.has(number)) {
+    return formatMessage(language, 'numberDuplicate', { number });
   }
 
   return null;
 };
 
+const countFreeSlots = (slots: PatternSlot[]): number => {
+  return slots.filter(slot => !slot.isFixed).length;
+};
+
+/**
+ * Replays a complete number through the constraint state machine.
+ * Also rejects numbers whose digits fall outside their slot's digit set.
+ */
+const isValidForSlots = (
+  numberStr: string,
+  slots: PatternSlot[],
+  constraints: GenerationConstraints
+): boolean => {
+  if (numberStr.length !== slots.length) return false;
+
+  let state: ConstraintState | null = createConstraintState();
+  for (let i = 0; i < slots.length && state; i++) {
+    const d = numberStr.charCodeAt(i) - 48;
+    if (!slots[i].digits.includes(d)) return false;
+    state = slots[i].isFixed
+      ? appendFixedDigit(state, numberStr[i], constraints)
+      : appendFreeDigit(state, d, constraints);
+  }
+  return state !== null;
+};
+
+/**
+ * Maximum raw candidates (product of slot sizes) for which every number is enumerated
+ * instead of sampled at random. 10^5 keeps a full pass well under a second.
+ */
+export const ENUMERATION_LIMIT = 100_000;
+
+/**
+ * Returns the raw size of the pattern's space, ignoring constraints.
+ */
+export const getPossibilitySpace = (pattern: string): number => {
+  return requirePatternSlots(pattern).reduce((total, slot) => total * slot.digits.length, 1);
+};
+
+/**
+ * Resolves which strategy generatePhoneNumbers will use for this pattern.
+ */
+export const resolveGenerationStrategy = (
+  pattern: string,
+  options?: GenerationOptions
+): 'random' | 'exhaustive' => {
+  const strategy = options?.strategy ?? 'auto';
+  if (strategy !== 'auto') return strategy;
+  return getPossibilitySpace(pattern) <= ENUMERATION_LIMIT ? 'exhaustive' : 'random';
+};
+
+/**
+ * Lists every number matching the pattern that satisfies the constraints
+ * and is not in the exclude set, in ascending order.
+ * The length of the result is the exact number of valid new numbers available.
+ */
+export const enumeratePhoneNumbers = (
+  pattern: string,
+  options?: GenerationOptions,
+  excludeSet?: Set<string>
+): string[] => {
+  const slots = requirePatternSlots(pattern);
+  const constraints = resolveConstraints(countFreeSlots(slots), options);
+  const results: string[] = [];
+  const chars: string[] = [];
+
+  // Depth-first walk in ascending order, pruning branches as soon as a rule breaks
+  const walk = (index: number, state: ConstraintState) => {
+    if (index === slots.length) {
+      const numberStr = chars.join('');
+      if (!excludeSet?.has(numberStr)) results.push(numberStr);
+      return;
+    }
+    const slot = slots[index];
+    if (slot.isFixed) {
+      const next = appendFixedDigit(state, slot.token, constraints);
+      if (!next) return;
+      chars.push(slot.token);
+      walk(index + 1, next);
+      chars.pop();
+      return;
+    }
+    for (const d of slot.digits) {
+      const next = appendFreeDigit(state, d, constraints);
+      if (!next) continue;
+      chars.push(d.toString());
+      walk(index + 1, next);
+      chars.pop();
+    }
+  };
+  walk(0, createConstraintState());
+
+  return results;
+};
+
+/**
+ * Memo entries the exact counter may create before falling back to bounds.
+ * Covers every 10-slot pattern (up to 8 free digits) in under half a second.
+ */
+const COUNT_STATE_LIMIT = 300_000;
+
+/**
+ * Exact count via depth-first search memoized on the constraint state.
+ * Returns null when the state budget is exhausted.
+ */
+const countExactly = (slots: PatternSlot[], constraints: GenerationConstraints): number | null => {
+  const memo = new Map<number | string, number>();
+  const encodeKey = createStateKeyEncoder(constraints, countFreeSlots(slots), slots.length);
+  let overBudget = false;
+
+  const walk = (index: number, state: ConstraintState): number => {
+    if (index === slots.length) return 1;
+    const key = encodeKey(index, state);
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    if (overBudget || memo.size >= COUNT_STATE_LIMIT) {
+      overBudget = true;
+      return 0;
+    }
+
+    let total = 0;
+    const slot = slots[index];
+    if (slot.isFixed) {
+      const next = appendFixedDigit(state, slot.token, constraints);
+      if (next) total = walk(index + 1, next);
+    } else {
+      for (const d of slot.digits) {
+        const next = appendFreeDigit(state, d, constraints);
+        if (next) total += walk(index + 1, next);
+      }
+    }
+    memo.set(key, total);
+    return total;
+  };
+
+  const total = walk(0, createConstraintState());
+  return overBudget ? null : total;
+};
+
+/**
+ * Upper bound on strings where some digit exceeds the frequency cap (union bound over digits).
+ * Computed over unrestricted slots, which only makes it looser for bracket classes.
+ */
+const countFrequencyViolations = (numUnknowns: number, maxDigitFrequency: number): number => {
+  let perDigit = 0;
+  let binomial = 1; // C(n, j)
+  for (let j = 0; j <= numUnknowns; j++) {
+    if (j > 0) binomial = binomial * (numUnknowns - j + 1) / j;
+    if (j > maxDigitFrequency) perDigit += binomial * Math.pow(9, numUnknowns - j);
+  }
+  return perDigit * 10;
+};
+
+/**
+ * Counts how many numbers the pattern can still produce under the given options,
+ * taking the constraints and the exclude set into account.
+ * Exact for every pattern the counter can finish within its budget, otherwise
+ * returns tight lower/upper bounds with `exact: false`.
+ */
+export const countValidNumbers = (
+  pattern: string,
+  options?: GenerationOptions,
+  excludeSet?: Set<string>
+): PatternCapacity => {
+  const slots = requirePatternSlots(pattern);
+  const numUnknowns = countFreeSlots(slots);
+  const constraints = resolveConstraints(numUnknowns, options);
+
+  // Excluded numbers only reduce the total if they would have been valid results
+  let excludedMatches = 0;
+  excludeSet?.forEach(numberStr => {
+    if (isValidForSlots(numberStr, slots, constraints)) excludedMatches++;
+  });
+
+  const exact = countExactly(slots, constraints);
+  if (exact !== null) {
+    const remaining = exact - excludedMatches;
+    return { min: remaining, max: remaining, exact: true };
+  }
+
+  // Without the frequency cap the state space is tiny, so this is always exact
+  const upper = countExactly(slots, { ...constraints, maxDigitFrequency: null }) ?? getPossibilitySpace(pattern);
+  const violations = constraints.maxDigitFrequency === null
+    ? 0
+    : countFrequencyViolations(numUnknowns, constraints.maxDigitFrequency);
+  const lower = Math.max(0, upper - violations);
+  return {
+    min: Math.max(0, lower - excludedMatches),
+    max: Math.max(0, upper - excludedMatches),
+    exact: lower === upper
+  };
+};
+
+/**
+ * A generation that can be advanced in slices, so callers (the Web Worker) can report
+ * progress and stop early. Stopping keeps every number accepted so far.
+ */
+export interface GenerationRun {
+  // Runs up to `budget` more sampling attempts; returns true once the run is finished
+  step: (budget: number) => boolean;
+  getProgress: () => GenerationProgress;
+  // Contacts accepted so far (sorted by number) with the run's statistics
+  getResult: () => GenerationResult;
+}
+
+const createRejectionCounts = (): RejectionCounts => ({
+  frequency: 0,
+  run: 0,
+  sequence: 0,
+  forbidden: 0,
+  duplicate: 0
+});
+
+/**
+ * Prepares a generation without running it; see generatePhoneNumbers for the parameters.
+ * Stepping a run to completion gives exactly the same numbers as generatePhoneNumbers.
+ */
+export const createGenerationRun = (
+  config: GenerationConfig,
+  options?: GenerationOptions,
+  excludeSet?: Set<string>,
+  random?: RandomSource
+): GenerationRun => {
+  const { pattern, count, contactNamePrefix } = config;
+
+  const seed = options?.seed ?? createRandomSeed();
+  const rng = random ?? createSeededRandom(seed);
+  const initialSize = excludeSet?.size || 0;
+
+  const toContact = (numberStr: string, index: number): GeneratedContact => ({
+    id: (initialSize + index + 1).toString(), // Temporary ID
+    number: numberStr,
+    name: contactNamePrefix,
+    isSaved: false,
+    source: 'generated',
+    seed: random ? options?.seed : seed,
+    profileId: options?.profileId
+  });
+
+  const sampler = resolveGenerationStrategy(pattern, options) === 'exhaustive'
+    ? createEnumerationSampler(pattern, count, options, excludeSet, rng)
+    : createRandomSampler(pattern, count, options, excludeSet, rng);
+
+  let finished = false;
+
+  return {
+    step: (budget: number) => {
+      finished = sampler.step(budget);
+      return finished;
+    },
+    getProgress: sampler.getProgress,
+    getResult: () => {
+      const { attempts, rejections } = sampler.getProgress();
+      return {
+        // Sort results for display (Ascending order)
+        contacts: sampler.results.slice().sort((a, b) => a.localeCompare(b)).map(toContact),
+        requested: count,
+        attempts,
+        rejections,
+        // A stopped run says nothing about the space, only a finished one can look exhausted
+        exhausted: finished && sampler.isExhausted()
+      };
+    }
+  };
+};
+
 /**
  * Generates unique phone numbers based on the pattern.
- * Refined logic ensures even distribution and adheres to repetition density rules.
+ * The result reports why candidates were rejected, so callers can explain a short batch.
+ * Small patterns (see ENUMERATION_LIMIT) are enumerated exhaustively so the
+ * requested count is always met when enough valid numbers exist; larger ones
+ * are sampled at random with per-slot retries.
+ * Output is fully determined by the config and options (including the seed): excluded
+ * numbers are drawn like any other and then skipped, so a seed replayed against a grown
+ * exclude set yields the same numbers minus the excluded ones, followed by the next draws.
  * @param excludeSet - A Set of phone numbers to exclude (prevent duplicates from existing list)
+ * @param random - Optional PRNG override; defaults to a seeded Mulberry32 built from options.seed
  */
 export const generatePhoneNumbers = (
   config: GenerationConfig,
   options?: GenerationOptions,
-  excludeSet?: Set<string>
-): GeneratedContact[] => {
-  const { pattern, count, contactNamePrefix } = config;
-  const results: GeneratedContact[] = [];
-  
-  // Start with the excludeSet if provided, otherwise empty
-  const generatedSet = new Set<string>(excludeSet || []);
-  const initialSize = generatedSet.size;
-  
-  // Identify missing indices
-  const missingIndices: number[] = [];
-  for (let i = 0; i < pattern.length; i++) {
-    if (pattern[i] === '_') {
-      missingIndices.push(i);
+  excludeSet?: Set<string>,
+  random?: RandomSource
+): GenerationResult => {
+  const run = createGenerationRun(config, options, excludeSet, random);
+  run.step(Infinity);
+  return run.getResult();
+};
+
+interface Sampler {
+  results: string[];
+  step: (budget: number) => boolean;
+  getProgress: () => GenerationProgress;
+  // Whether a finished run fell short because (almost) no unused valid numbers were left
+  isExhausted: () => boolean;
+}
+
+/**
+ * Picks `count` numbers out of the full enumeration, either a seeded random
+ * subset (Fisher-Yates) or the lowest numbers in ascending order.
+ * Excluded numbers are shuffled like any other and skipped afterwards, so the
+ * order of the picks does not depend on the exclude set.
+ * The enumeration is bounded by ENUMERATION_LIMIT, so it finishes in a single step.
+ */
+const createEnumerationSampler = (
+  pattern: string,
+  count: number,
+  options: GenerationOptions | undefined,
+  excludeSet: Set<string> | undefined,
+  rng: RandomSource
+): Sampler => {
+  const results: string[] = [];
+  const rejections = createRejectionCounts();
+  let done = false;
+  let poolSize = 0;
+  let examined = 0;
+
+  const step = (): boolean => {
+    if (done) return true;
+    done = true;
+
+    const pool = enumeratePhoneNumbers(pattern, options);
+    poolSize = pool.length;
+    const shuffle = (options?.enumerationOrder ?? 'shuffle') !== 'ascending';
+
+    // Partial shuffle: positions are only settled until enough unused numbers are found
+    for (; examined < pool.length && results.length < count; examined++) {
+      if (shuffle) {
+        const j = examined + randomInt(rng, pool.length - examined);
+        [pool[examined], pool[j]] = [pool[j], pool[examined]];
+      }
+      if (excludeSet?.has(pool[examined])) {
+        rejections.duplicate++;
+      } else {
+        results.push(pool[examined]);
+      }
     }
-  }
+    return true;
+  };
+
+  return {
+    results,
+    step,
+    getProgress: () => ({
+      target: count,
+      accepted: results.length,
+      attempts: examined,
+      maxAttempts: poolSize,
+      rejections: { ...rejections }
+    }),
+    // The enumeration is complete, so falling short means the space is used up
+    isExhausted: () => done && results.length < count
+  };
+};
+
+/**
+ * Rejection sampler for patterns too large to enumerate.
+ * May finish with fewer than `count` numbers when the attempt budget runs out.
+ */
+const createRandomSampler = (
+  pattern: string,
+  count: number,
+  options: GenerationOptions | undefined,
+  excludeSet: Set<string> | undefined,
+  rng: RandomSource
+): Sampler => {
+  const results: string[] = [];
+  const rejections = createRejectionCounts();
+
+  // Start with the excludeSet if provided, otherwise empty. Excluded numbers still use
+  // up their draw, so the sequence of candidates is the same with or without them
+  const generatedSet = new Set<string>(excludeSet || []);
 
-  const numUnknowns = missingIndices.length;
-  
   // Calculate possibilities limit to avoid infinite loops
-  const maxPossibilities = Math.pow(10, numUnknowns);
+  const maxPossibilities = getPossibilitySpace(pattern);
   const remainingPossibilities = maxPossibilities - (excludeSet?.size || 0);
   // Cap the target count to what is mathematically possible
   const targetCount = Math.min(count, Math.max(0, remainingPossibilities));
 
   // --- Constraint Configuration ---
-  const density = options?.repetitionDensity ?? 0.3;
-  
-  let maxDigitFreq: number;
-  let allowAdjacentDuplicates = false;
-  let allowSequences = false;
-
-  // Determine strictness based on density slider
-  if (density <= 0.4) {
-    // Strict Mode (0.0 - 0.4)
-    // Limit same digit to approx 1/3 of the slots (e.g. for 8 slots, max 3 repeats)
-    // Ensure strict ceiling to allow at least 2 for very short patterns
-    maxDigitFreq = Math.max(2, Math.ceil(numUnknowns * 0.35)); 
-    allowAdjacentDuplicates = false; // No '11', '55'
-    allowSequences = false; // No '123', '321'
-  } else if (density <= 0.7) {
-    // Balanced Mode (0.5 - 0.7)
-    maxDigitFreq = Math.max(2, Math.ceil(numUnknowns * 0.6));
-    allowAdjacentDuplicates = density > 0.55; 
-    allowSequences = density > 0.55;
-  } else {
-    // Loose Mode (0.8 - 1.0)
-    maxDigitFreq = numUnknowns;
-    allowAdjacentDuplicates = true;
-    allowSequences = true;
-  }
+  const slots = requirePatternSlots(pattern);
+  const constraints = resolveConstraints(countFreeSlots(slots), options);
 
   let attempts = 0;
   // Dynamic attempt limit: larger patterns need fewer retries per slot but global collision checks might need more
-  const maxAttempts = targetCount * 200 + 5000; 
-
-  while (results.length < targetCount && attempts < maxAttempts) {
-    attempts++;
-    
-    const candidateDigits: string[] = [];
-    const digitCounts: Record<string, number> = {};
-    let isCandidateStructureValid = true;
-
-    // Generate digits slot by slot with local backtracking checks
-    for (let k = 0; k < numUnknowns; k++) {
-      let foundValidDigitForSlot = false;
-      
-      // Try up to 20 times to find a valid digit for this specific slot
-      // to satisfy local constraints (adjacency, sequence, frequency)
-      for (let retry = 0; retry < 20; retry++) {
-        const d = Math.floor(Math.random() * 10).toString();
-        
-        // 1. Frequency Check
-        if ((digitCounts[d] || 0) >= maxDigitFreq) {
+  const maxAttempts = targetCount * 200 + 5000;
+
+  const isFinished = () => results.length >= targetCount || attempts >= maxAttempts;
+
+  const step = (budget: number): boolean => {
+    const stopAt = attempts + budget;
+
+    while (!isFinished() && attempts < stopAt) {
+      attempts++;
+
+      const chars: string[] = [];
+      let state: ConstraintState | null = createConstraintState();
+      let reason: RejectionReason = 'forbidden';
+
+      // Walk the pattern slot by slot with local retry checks
+      for (let i = 0; i < slots.length && state; i++) {
+        const slot = slots[i];
+        if (slot.isFixed) {
+          const next = appendFixedDigit(state, slot.token, constraints);
+          chars.push(slot.token);
+          // A fixed digit fails when the generated digits before it led into a broken rule
+          if (!next) reason = findDigitRejection(state, Number(slot.token), false, constraints) ?? reason;
+          state = next;
           continue;
         }
 
-        // 2. Adjacent Check (Previous generated digit)
-        if (!allowAdjacentDuplicates && k > 0) {
-          if (d === candidateDigits[k - 1]) {
-            continue;
+        let next: ConstraintState | null = null;
+
+        // Try up to 20 times to find a valid digit for this specific slot
+        // to satisfy local constraints (run, sequence, frequency, forbidden substrings)
+        for (let retry = 0; retry < 20 && !next; retry++) {
+          const d = slot.digits[randomInt(rng, slot.digits.length)];
+          next = appendFreeDigit(state, d, constraints);
+          if (next) {
+            chars.push(d.toString());
+          } else {
+            reason = findDigitRejection(state, d, true, constraints) ?? reason;
           }
         }
 
-        // 3. Sequence Check (Look at previous 2 digits)
-        if (!allowSequences && k > 1) {
-          const d1 = parseInt(candidateDigits[k - 2]);
-          const d2 = parseInt(candidateDigits[k - 1]);
-          const dCurrent = parseInt(d);
-          
-          // Ascending (e.g., 1, 2 -> 3)
-          if (d2 === d1 + 1 && dCurrent === d2 + 1) continue;
-          // Descending (e.g., 3, 2 -> 1)
-          if (d2 === d1 - 1 && dCurrent === d2 - 1) continue;
-        }
+        // Could not find a valid digit for this slot after retries.
+        // Abandon this entire number attempt and start fresh.
+        state = next;
+      }
 
-        // If we get here, the digit is valid locally
-        candidateDigits.push(d);
-        digitCounts[d] = (digitCounts[d] || 0) + 1;
-        foundValidDigitForSlot = true;
-        break;
+      if (!state) {
+        // Counted by the rule that blocked the last retry of the failing slot
+        rejections[reason]++;
+        continue;
       }
 
-      if (!foundValidDigitForSlot) {
-        // Could not find a valid digit for this slot after retries.
-        // Abandon this entire number attempt and start fresh.
-        isCandidateStructureValid = false;
-        break;
+      const numberStr = chars.join('');
+
+      // Global Uniqueness Check (against both new results and excluded set)
+      if (!generatedSet.has(numberStr)) {
+        generatedSet.add(numberStr);
+        results.push(numberStr);
+      } else {
+        rejections.duplicate++;
       }
     }
 
-    if (!isCandidateStructureValid) continue;
-
-    // Construct the full number string
-    const finalNumberArr = pattern.split('');
-    missingIndices.forEach((patternIndex, generatedIndex) => {
-      finalNumberArr[patternIndex] = candidateDigits[generatedIndex];
-    });
-    const numberStr = finalNumberArr.join('');
-
-    // Global Uniqueness Check (against both new results and excluded set)
-    if (!generatedSet.has(numberStr)) {
-      generatedSet.add(numberStr);
-      
-      results.push({
-        id: (initialSize + results.length + 1).toString(), // Temporary ID
-        number: numberStr,
-        name: contactNamePrefix,
-        isSaved: false
-      });
-    }
-  }
+    return isFinished();
+  };
+
+  return {
+    results,
+    step,
+    getProgress: () => ({
+      target: targetCount,
+      accepted: results.length,
+      attempts,
+      maxAttempts,
+      rejections: { ...rejections }
+    }),
+    // Running out of attempts mostly on collisions means few unused numbers are left;
+    // other rejections point at the constraints instead
+    isExhausted: () => results.length < count
+      && (targetCount < count || getMainRejectionReason(rejections) === 'duplicate')
+  };
+};
 
-  // Sort results for display (Ascending order)
-  results.sort((a, b) => a.number.localeCompare(b.number));
+// Arabic rejection phrases, shown by the app's loading overlay
+export const REJECTION_LABELS: Record<RejectionReason, string> = REJECTION_PHRASES.ar;
 
-  return results;
-};
\ No newline at end of file
+/**
+ * Returns the reason that rejected the most candidates, or null if nothing was rejected.
+ */
+export const getMainRejectionReason = (rejections: RejectionCounts): RejectionReason | null => {
+  let main: RejectionReason | null = null;
+  (Object.keys(rejections) as RejectionReason[]).forEach(reason => {
+    if (rejections[reason] > 0 && (main === null || rejections[reason] > rejections[main])) main = reason;
+  });
+  return main;
+};
+
+/**
+ * One-line summary of a run: requested vs produced and, when short,
+ * whether the space ran out or which constraint held the run back.
+ */
+export const describeGenerationResult = (result: GenerationResult, language: MessageLanguage = 'ar'): string => {
+  const { requested, attempts } = result;
+  const produced = result.contacts.length;
+  if (produced >= requested) {
+    return formatMessage(language, 'summaryComplete', { requested, produced });
+  }
+
+  const reason = getMainRejectionReason(result.rejections);
+  if (result.exhausted) return formatMessage(language, 'summaryExhausted', { requested, produced });
+  if (reason !== null) return formatMessage(language, 'summaryRejected', { requested, produced, reason, attempts });
+  return formatMessage(language, 'summaryOutOfAttempts', { requested, produced, attempts });
+};
@@ -0,0 +1,48 @@
+// One reversible change: the state before and after it
+export interface HistoryEntry<T> {
+  label: string; // Arabic description, shown in the undo snackbar
+  before: T;
+  after: T;
+}
+
+export interface UndoHistory<T> {
+  past: HistoryEntry<T>[]; // Most recent last
+  future: HistoryEntry<T>[]; // Undone entries, most recently undone last
+}
+
+// Older entries are dropped; each one holds two full snapshots of the list
+export const MAX_HISTORY_ENTRIES = 30;
+
+export const createHistory = <T>(): UndoHistory<T> => ({ past: [], future: [] });
+
+/**
+ * Records a change. Any redo entries are discarded, as in every editor.
+ */
+export const recordChange = <T>(history: UndoHistory<T>, label: string, before: T, after: T): UndoHistory<T> => ({
+  past: [...history.past, { label, before, after }].slice(-MAX_HISTORY_ENTRIES),
+  future: []
+});
+
+/**
+ * Moves the latest change to the redo stack. Returns null when there is nothing to undo.
+ */
+export const undoChange = <T>(history: UndoHistory<T>): { history: UndoHistory<T>; entry: HistoryEntry<T> } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] },
+    entry
+  };
+};
+
+/**
+ * Re-applies the most recently undone change. Returns null when there is nothing to redo.
+ */
+export const redoChange = <T>(history: UndoHistory<T>): { history: UndoHistory<T>; entry: HistoryEntry<T> } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) },
+    entry
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ExportFormat, GeneratedContact, VCardVersion } from '../types';
+import { EXPORTERS } from './exporters';
+import { importContactsFile, parseCSVEntries, parseVCFEntries } from './importer';
+import { getProfile } from './profiles';
+import { generateVCF } from './vcf';
+
+const saudi = getProfile('sa');
+
+const contacts: GeneratedContact[] = [
+  { id: '0001', number: '0551234567', name: 'أحمد; "الأول", طويل جداً '.repeat(4).trim(), profileId: 'sa' },
+  { id: '0002', number: '0557654321', name: 'TEST 2', profileId: 'sa' }
+];
+
+describe('parseVCFEntries', () => {
+  it.each(['2.1', '3.0', '4.0'] as VCardVersion[])('reads back the names and numbers of a %s export', version => {
+    const vcf = generateVCF(contacts, { version, numberFormat: 'international' });
+    expect(parseVCFEntries(vcf)).toEqual([
+      { number: '+966551234567', name: contacts[0].name },
+      { number: '+966557654321', name: 'TEST 2' }
+    ]);
+  });
+
+  it('falls back to N and reads every TEL of a card', () => {
+    const vcf = 'BEGIN:VCARD\r\nVERSION:3.0\r\nN:Doe;Jane;;;\r\nitem1.TEL:0551111111\r\nTEL:0552222222\r\nEND:VCARD\r\n';
+    expect(parseVCFEntries(vcf)).toEqual([
+      { number: '0551111111', name: 'Doe Jane' },
+      { number: '0552222222', name: 'Doe Jane' }
+    ]);
+  });
+});
+
+describe('parseCSVEntries', () => {
+  it.each(['csv', 'google-csv', 'outlook-csv'] as ExportFormat[])('reads back a %s export', format => {
+    const entries = parseCSVEntries(EXPORTERS[format].serialize(contacts));
+    expect(entries.map(e => e.number)).toEqual(['0551234567', '0557654321']);
+    expect(entries[0].name).toBe(contacts[0].name);
+  });
+
+  it('finds the phone column without a header', () => {
+    expect(parseCSVEntries('x;0551234567\ny;0557654321\n').map(e => e.number)).toEqual(['0551234567', '0557654321']);
+  });
+});
+
+describe('importContactsFile', () => {
+  it('normalizes numbers and counts duplicates and malformed entries', () => {
+    const text = 'number\r\n+966551234567\r\n0551234567\r\n٠٥٥٧٦٥٤٣٢١\r\n0550000000\r\n12345\r\n';
+    const summary = importContactsFile(text, 'list.csv', saudi, new Set(['0550000000']));
+    expect(summary).toEqual({
+      entries: [{ number: '0551234567', name: undefined }, { number: '0557654321', name: undefined }],
+      total: 5,
+      duplicates: 2,
+      malformed: 1
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { ImportedEntry, ImportSummary, NumberingProfile } from '../types';
+import { isValidLocalNumber, toLocalNumber } from './phone';
+
+interface RawEntry {
+  number: string;
+  name?: string;
+}
+
+/**
+ * Decodes a vCard 2.1 quoted-printable value (=D8=A7...) as UTF-8.
+ */
+const decodeQuotedPrintable = (value: string): string => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(value[i]));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+const unescapeVCardText = (value: string): string => {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+/**
+ * Splits vCard text into logical lines: folded continuations (CRLF + space/tab)
+ * and quoted-printable soft breaks ('=' at end of line) are joined back.
+ */
+const unfoldVCardLines = (text: string): string[] => {
+  const physical = text.replace(/\r\n?/g, '\n').split('\n');
+  const lines: string[] = [];
+  for (const line of physical) {
+    const previous = lines[lines.length - 1];
+    if (previous !== undefined && /^[ \t]/.test(line)) {
+      lines[lines.length - 1] = previous + line.slice(1);
+    } else if (previous !== undefined && /QUOTED-PRINTABLE/i.test(previous) && previous.endsWith('=')) {
+      lines[lines.length - 1] = previous.slice(0, -1) + line;
+    } else {
+      lines.push(line);
+    }
+  }
+  return lines;
+};
+
+/**
+ * Extracts every TEL of every card, paired with the card's FN (or N) when present.
+ * Supports vCard 2.1 (including quoted-printable), 3.0 and 4.0 (tel: URIs).
+ */
+export const parseVCFEntries = (text: string): RawEntry[] => {
+  const entries: RawEntry[] = [];
+  let numbers: string[] = [];
+  let name: string | undefined;
+
+  for (const line of unfoldVCardLines(text)) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+
+    const head = line.slice(0, colon);
+    const rawValue = line.slice(colon + 1);
+    // Property names may carry a group prefix such as "item1.TEL"
+    const property = head.split(';')[0].split('.').pop()!.toUpperCase();
+    const value = /QUOTED-PRINTABLE/i.test(head) ? decodeQuotedPrintable(rawValue) : rawValue;
+
+    if (property === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+      numbers = [];
+      name = undefined;
+    } else if (property === 'TEL') {
+      numbers.push(value.replace(/^tel:/i, '').trim());
+    } else if (property === 'FN') {
+      name = unescapeVCardText(value).trim() || name;
+    } else if (property === 'N' && !name) {
+      name = value.split(/(?<!\\);/).map(unescapeVCardText).filter(Boolean).join(' ').trim() || undefined;
+    } else if (property === 'END' && value.trim().toUpperCase() === 'VCARD') {
+      numbers.forEach(number => entries.push({ number, name }));
+      numbers = [];
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Splits CSV text into rows, honouring double-quoted fields with embedded delimiters,
+ * quotes ("") and line breaks.
+ */
+const parseCSVRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const detectDelimiter = (firstLine: string): string => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+};
+
+const PHONE_HEADER = /phone|tel|mobile|number|رقم|هاتف|جوال|موبايل/i;
+const NAME_HEADER = /name|الاسم|اسم/i;
+const looksLikePhone = (value: string): boolean => (value.replace(/\D/g, '').length >= 7);
+
+/**
+ * Extracts numbers (and names when a name column exists) from a CSV export.
+ * Phone columns are found by header name (Google/Outlook exports, "رقم"...) or,
+ * without a recognizable header, by the column whose values look most like numbers.
+ */
+export const parseCSVEntries = (text: string): RawEntry[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const rows = parseCSVRows(content, detectDelimiter(content.split(/\r?\n/)[0] ?? ''));
+  if (rows.length === 0) return [];
+
+  const header = rows[0];
+  let phoneColumns = header
+    .map((cell, index) => (PHONE_HEADER.test(cell) && !/type|label|نوع/i.test(cell) ? index : -1))
+    .filter(index => index !== -1);
+  const hasHeader = phoneColumns.length > 0 || !header.some(looksLikePhone);
+  const nameColumn = hasHeader ? header.findIndex(cell => NAME_HEADER.test(cell)) : -1;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  if (phoneColumns.length === 0) {
+    // No header hint: pick the column with the most phone-like values
+    const width = Math.max(...dataRows.map(r => r.length));
+    let bestColumn = -1;
+    let bestScore = 0;
+    for (let col = 0; col < width; col++) {
+      const score = dataRows.filter(r => looksLikePhone(r[col] ?? '')).length;
+      if (score > bestScore) {
+        bestScore = score;
+        bestColumn = col;
+      }
+    }
+    phoneColumns = bestColumn === -1 ? [] : [bestColumn];
+  }
+
+  const entries: RawEntry[] = [];
+  for (const row of dataRows) {
+    const name = nameColumn !== -1 ? row[nameColumn]?.trim() || undefined : undefined;
+    for (const col of phoneColumns) {
+      // Google Contacts joins several numbers in one cell with " ::: "
+      for (const number of (row[col] ?? '').split(':::')) {
+        if (number.trim()) entries.push({ number: number.trim(), name });
+      }
+    }
+  }
+  return entries;
+};
+
+/**
+ * Parses a VCF or CSV file and normalizes its numbers to the profile's local form.
+ * Numbers already in `existingNumbers`, or repeated within the file, count as duplicates;
+ * numbers that do not fit the profile count as malformed.
+ */
+export const importContactsFile = (
+  text: string,
+  fileName: string,
+  profile: NumberingProfile,
+  existingNumbers: Set<string>
+): ImportSummary => {
+  const isVCF = /\.vcf$|\.vcard$/i.test(fileName) || /BEGIN:VCARD/i.test(text);
+  const raw = isVCF ? parseVCFEntries(text) : parseCSVEntries(text);
+
+  const seen = new Set<string>();
+  const entries: ImportedEntry[] = [];
+  let duplicates = 0;
+  let malformed = 0;
+
+  for (const item of raw) {
+    const number = toLocalNumber(item.number, profile);
+    if (!isValidLocalNumber(number, profile)) {
+      malformed++;
+    } else if (existingNumbers.has(number) || seen.has(number)) {
+      duplicates++;
+    } else {
+      seen.add(number);
+      entries.push({ number, name: item.name });
+    }
+  }
+
+  return { entries, total: raw.length, duplicates, malformed };
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedContact } from '../types';
+import { validateConstraints } from './constraints';
+import { describeGenerationResult, validateContactNumber, validatePattern } from './generator';
+import { formatMessage, MessageKey, MESSAGES, MessageParams } from './messages';
+import { getProfile } from './profiles';
+import { validateSafePattern, validateTestRanges } from './safety';
+import { validateTemplate } from './template';
+import { verifyContacts } from './verification';
+
+const ARABIC = /[؀-ۿ]/;
+const saudi = getProfile('sa');
+
+// One set of parameters per message; typed by key so a new message without a sample fails to compile
+const SAMPLES: { [K in MessageKey]: MessageParams<K> } = {
+  patternEmpty: undefined,
+  patternInvalidChars: { chars: ['a', '#'] },
+  patternLength: { actual: 9, expected: 10, profile: saudi },
+  patternPrefix: { prefixes: ['05'], profile: saudi },
+  patternNoUnknowns: undefined,
+  numberDigitsOnly: undefined,
+  numberDuplicate: { number: '0551234567' },
+  classUnclosed: { token: '[03' },
+  classNested: { token: '[0[3]' },
+  classUnopened: undefined,
+  classEmpty: { token: '[]' },
+  classInvalidChars: { token: '[0a]', chars: ['a'] },
+  classRangeIncomplete: { token: '[2-]' },
+  classRangeReversed: { range: '7-2' },
+  classExcludesAll: { token: '[^0-9]' },
+  constraintNotPositive: { limit: 'maxRunLength' },
+  forbiddenNotDigits: { values: ['9a'] },
+  templateUnopenedBrace: undefined,
+  templateUnclosedToken: { token: '{seq' },
+  templateUnknownTokens: { names: ['{foo}'] },
+  templateSeqWidth: { arg: '0' },
+  templateDateFormat: { arg: 'xx' },
+  templateNoArgument: { token: 'prefix' },
+  nameTemplate: { error: 'Empty' },
+  testRangesInvalid: { ranges: ['0650'], profile: saudi, maxLength: 10 },
+  safeModeNoRanges: { profile: saudi },
+  safeModeOutsideRanges: { ranges: ['0550'] },
+  testRangesWithoutSafeMode: undefined,
+  seedInvalid: undefined,
+  countOutOfRange: { max: 10000 },
+  prefixEmpty: undefined,
+  summaryComplete: { requested: 5, produced: 5 },
+  summaryExhausted: { requested: 5, produced: 3 },
+  summaryRejected: { requested: 5, produced: 3, reason: 'run', attempts: 200 },
+  summaryOutOfAttempts: { requested: 5, produced: 3, attempts: 200 },
+  violationDuplicate: undefined,
+  violationPattern: { pattern: '05________' },
+  violationFrequency: { digit: 7, count: 4, limit: 3 },
+  violationRun: { digits: '777', limit: 2 },
+  violationSequence: { digits: '1234', limit: 3 },
+  violationForbidden: { substring: '911' }
+};
+
+const contact = (id: string, number: string): GeneratedContact => ({ id, number, name: id, isSaved: false });
+
+describe('MESSAGES', () => {
+  it.each(Object.keys(MESSAGES) as MessageKey[])('%s has an English translation', key => {
+    const render = MESSAGES[key].en as (params: unknown) => string;
+    const english = render(SAMPLES[key]);
+    expect(english).not.toMatch(ARABIC);
+    expect(english).not.toBe((MESSAGES[key].ar as (params: unknown) => string)(SAMPLES[key]));
+  });
+
+  it('keeps the Arabic text of the app', () => {
+    expect(formatMessage('ar', 'patternEmpty')).toBe('يرجى إدخال نمط الرقم.');
+    expect(formatMessage('ar', 'countOutOfRange', { max: 10000 })).toBe('العدد يجب أن يكون بين 1 و 10000.');
+  });
+});
+
+describe('validators in English', () => {
+  const english = [
+    validatePattern('', undefined, 'en'),
+    validatePattern('05____]___', undefined, 'en'),
+    validatePattern('05____[3___', undefined, 'en'),
+    validatePattern('05__[^0-9]____', undefined, 'en'),
+    validatePattern('05__ab____', undefined, 'en'),
+    validatePattern('05______', undefined, 'en'),
+    validatePattern('06________', undefined, 'en'),
+    validatePattern('0512345678', undefined, 'en'),
+    validatePattern('05________', {
+      repetitionDensity: 0.3,
+      constraints: { maxDigitFrequency: 0, maxRunLength: null, maxSequenceLength: null, forbiddenSubstrings: [] }
+    }, 'en'),
+    validateConstraints({ maxDigitFrequency: null, maxRunLength: null, maxSequenceLength: null, forbiddenSubstrings: ['x'] }, 'en'),
+    validateContactNumber('05a', undefined, undefined, 'en'),
+    validateContactNumber('0551234567', undefined, new Set(['0551234567']), 'en'),
+    validateTemplate('{seq:0}', 'en'),
+    validateTemplate('{nope}', 'en'),
+    validateTemplate('}', 'en'),
+    validateTestRanges(['0650'], saudi, 'en'),
+    validateSafePattern('05________', [], saudi, 'en'),
+    validateSafePattern('05________', ['0550'], saudi, 'en')
+  ];
+
+  it.each(english.map((error, index) => [index, error]))('message %i is English', (_, error) => {
+    expect(error).toEqual(expect.any(String));
+    expect(error).not.toMatch(ARABIC);
+  });
+
+  it('reports the stray bracket of 05____]___', () => {
+    expect(validatePattern('05____]___', undefined, 'en')).toBe(formatMessage('en', 'classUnopened'));
+  });
+
+  it('describes runs and violations in English', () => {
+    const summary = describeGenerationResult({
+      contacts: [],
+      requested: 3,
+      attempts: 50,
+      rejections: { frequency: 0, run: 9, sequence: 0, forbidden: 0, duplicate: 0 },
+      exhausted: false
+    }, 'en');
+    expect(summary).toBe(formatMessage('en', 'summaryRejected', { requested: 3, produced: 0, reason: 'run', attempts: 50 }));
+
+    const report = verifyContacts([contact('1', '0577712345'), contact('2', '0577712345'), contact('3', '06')], '05________', {
+      repetitionDensity: 0,
+      constraints: { maxDigitFrequency: 2, maxRunLength: 2, maxSequenceLength: 2, forbiddenSubstrings: ['777'] }
+    }, 'en');
+    expect(report.violations.length).toBeGreaterThan(0);
+    report.violations.forEach(violation => expect(violation.detail).not.toMatch(ARABIC));
+  });
+});
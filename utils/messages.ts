@@ -0,0 +1,247 @@
+import { NumberingProfile, RejectionReason } from '../types';
+
+// The app speaks Arabic; English is offered to the headless library and the CLI
+export type MessageLanguage = 'ar' | 'en';
+
+type Translations<P> = Record<MessageLanguage, (params: P) => string>;
+
+// Ties a message's parameter type to both of its translations
+const message = <P = void>(translations: Translations<P>): Translations<P> => translations;
+
+const profileName = (profile: NumberingProfile, language: MessageLanguage): string => {
+  return language === 'ar' ? profile.name : profile.englishName;
+};
+
+// Phrases used when reporting rejections, e.g. "كان حد تكرار الرقم القيد الرئيسي"
+export const REJECTION_PHRASES: Record<MessageLanguage, Record<RejectionReason, string>> = {
+  ar: {
+    frequency: 'حد تكرار الرقم',
+    run: 'منع التكرار المتتالي',
+    sequence: 'منع التسلسل',
+    forbidden: 'المقاطع الممنوعة',
+    duplicate: 'تكرار أرقام مستخدمة'
+  },
+  en: {
+    frequency: 'the digit frequency limit',
+    run: 'the run limit',
+    sequence: 'the sequence limit',
+    forbidden: 'the forbidden substrings',
+    duplicate: 'collisions with numbers already in use'
+  }
+};
+
+export type ConstraintLimit = 'maxDigitFrequency' | 'maxRunLength' | 'maxSequenceLength';
+
+const CONSTRAINT_LABELS: Record<MessageLanguage, Record<ConstraintLimit, string>> = {
+  ar: {
+    maxDigitFrequency: 'الحد الأقصى لتكرار الرقم',
+    maxRunLength: 'أقصى طول للتكرار المتتالي',
+    maxSequenceLength: 'أقصى طول للتسلسل'
+  },
+  en: {
+    maxDigitFrequency: 'Max digit frequency',
+    maxRunLength: 'Max run length',
+    maxSequenceLength: 'Max sequence length'
+  }
+};
+
+/**
+ * Every message the validators and the run summary can return, keyed so callers can ask
+ * for a language instead of matching the text. Adding a key requires both translations.
+ */
+export const MESSAGES = {
+  // Pattern layout (validatePattern / validateContactNumber)
+  patternEmpty: message({
+    ar: () => 'يرجى إدخال نمط الرقم.',
+    en: () => 'Please enter a number pattern.'
+  }),
+  patternInvalidChars: message<{ chars: string[] }>({
+    ar: p => `النمط يحتوي على رموز غير مسموحة: [ ${p.chars.join(' ')} ]. يرجى استخدام الأرقام والرمز (_) والفئات مثل [035] فقط.`,
+    en: p => `The pattern contains characters that are not allowed: [ ${p.chars.join(' ')} ]. Use only digits, the (_) symbol and classes such as [035].`
+  }),
+  patternLength: message<{ actual: number; expected: number; profile: NumberingProfile }>({
+    ar: p => `طول النمط غير صحيح (${p.actual}/${p.expected}). يجب أن يتكون من ${p.expected} خانات بالضبط لأرقام ${profileName(p.profile, 'ar')}.`,
+    en: p => `Invalid pattern length (${p.actual}/${p.expected}). Numbers in ${profileName(p.profile, 'en')} need exactly ${p.expected} slots.`
+  }),
+  patternPrefix: message<{ prefixes: string[]; profile: NumberingProfile }>({
+    ar: p => `يجب أن يبدأ النمط بـ ${p.prefixes.join(' أو ')} لأرقام ${profileName(p.profile, 'ar')}.`,
+    en: p => `The pattern must start with ${p.prefixes.join(' or ')} for numbers in ${profileName(p.profile, 'en')}.`
+  }),
+  patternNoUnknowns: message({
+    ar: () => 'لا توجد خانات مجهولة للتوليد. يرجى استخدام الرمز (_) أو فئة مثل [035] لتحديد الخانات المتغيرة.',
+    en: () => 'There are no unknown slots to generate. Use the (_) symbol or a class such as [035] to mark the variable slots.'
+  }),
+  numberDigitsOnly: message({
+    ar: () => 'الرقم يجب أن يتكون من أرقام فقط.',
+    en: () => 'The number may contain digits only.'
+  }),
+  numberDuplicate: message<{ number: string }>({
+    ar: p => `الرقم ${p.number} موجود مسبقاً في القائمة أو في الأرقام المستبعدة.`,
+    en: p => `The number ${p.number} is already in the list or among the excluded numbers.`
+  }),
+
+  // Digit classes (parsePattern)
+  classUnclosed: message<{ token: string }>({
+    ar: p => `فئة الأرقام "${p.token}" غير مغلقة: يوجد "[" بدون "]" مقابل.`,
+    en: p => `The digit class "${p.token}" is not closed: "[" without a matching "]".`
+  }),
+  classNested: message<{ token: string }>({
+    ar: p => `لا يمكن وضع فئة داخل فئة أخرى: "${p.token}".`,
+    en: p => `A class cannot be nested inside another class: "${p.token}".`
+  }),
+  classUnopened: message({
+    ar: () => 'يوجد "]" بدون "[" مقابل في النمط.',
+    en: () => 'The pattern has a "]" without a matching "[".'
+  }),
+  classEmpty: message<{ token: string }>({
+    ar: p => `فئة أرقام فارغة "${p.token}". يرجى تحديد رقم واحد على الأقل، مثل [035].`,
+    en: p => `Empty digit class "${p.token}". Specify at least one digit, e.g. [035].`
+  }),
+  classInvalidChars: message<{ token: string; chars: string[] }>({
+    ar: p => `الفئة "${p.token}" تحتوي على رموز غير مسموحة: [ ${p.chars.join(' ')} ]. استخدم أرقاماً مثل [035] أو نطاقاً مثل [2-7] أو نفياً مثل [^0-4].`,
+    en: p => `The class "${p.token}" contains characters that are not allowed: [ ${p.chars.join(' ')} ]. Use digits such as [035], a range such as [2-7] or a negation such as [^0-4].`
+  }),
+  classRangeIncomplete: message<{ token: string }>({
+    ar: p => `النطاق في الفئة "${p.token}" غير مكتمل. يجب أن يكون على الشكل [2-7].`,
+    en: p => `The range in the class "${p.token}" is incomplete. It must look like [2-7].`
+  }),
+  classRangeReversed: message<{ range: string }>({
+    ar: p => `النطاق "${p.range}" غير صحيح: يجب أن يكون الرقم الأول أصغر من الثاني أو مساوياً له.`,
+    en: p => `Invalid range "${p.range}": the first digit must be less than or equal to the second.`
+  }),
+  classExcludesAll: message<{ token: string }>({
+    ar: p => `الفئة "${p.token}" تستبعد جميع الأرقام، ولا يمكن التوليد منها.`,
+    en: p => `The class "${p.token}" excludes every digit, so nothing can be generated from it.`
+  }),
+
+  // Constraints (validateConstraints)
+  constraintNotPositive: message<{ limit: ConstraintLimit }>({
+    ar: p => `قيمة "${CONSTRAINT_LABELS.ar[p.limit]}" يجب أن تكون رقماً صحيحاً أكبر من صفر، أو فارغة لعدم التقييد.`,
+    en: p => `"${CONSTRAINT_LABELS.en[p.limit]}" must be a whole number greater than zero, or empty for no limit.`
+  }),
+  forbiddenNotDigits: message<{ values: string[] }>({
+    ar: p => `المقاطع الممنوعة يجب أن تحتوي على أرقام فقط: [ ${p.values.join(' ')} ].`,
+    en: p => `Forbidden substrings may contain digits only: [ ${p.values.join(' ')} ].`
+  }),
+
+  // Name templates (validateTemplate)
+  templateUnopenedBrace: message({
+    ar: () => 'يوجد "}" بدون "{" مقابل في القالب. استخدم "}}" لكتابة القوس نفسه.',
+    en: () => 'The template has a "}" without a matching "{". Use "}}" for a literal brace.'
+  }),
+  templateUnclosedToken: message<{ token: string }>({
+    ar: p => `الرمز "${p.token}" غير مغلق: يوجد "{" بدون "}" مقابل.`,
+    en: p => `The token "${p.token}" is not closed: "{" without a matching "}".`
+  }),
+  templateUnknownTokens: message<{ names: string[] }>({
+    ar: p => `القالب يحتوي على رموز غير معروفة: ${p.names.join(' ')}. الرموز المتاحة: {seq:4} {prefix} {batch} {date:YYYYMMDD} {last4} {pattern}.`,
+    en: p => `The template contains unknown tokens: ${p.names.join(' ')}. Available tokens: {seq:4} {prefix} {batch} {date:YYYYMMDD} {last4} {pattern}.`
+  }),
+  templateSeqWidth: message<{ arg: string }>({
+    ar: p => `عرض الترقيم في "{seq:${p.arg}}" يجب أن يكون رقماً من 1 إلى 9.`,
+    en: p => `The serial width in "{seq:${p.arg}}" must be a digit from 1 to 9.`
+  }),
+  templateDateFormat: message<{ arg: string }>({
+    ar: p => `صيغة التاريخ في "{date:${p.arg}}" لا تحتوي على أي حقل. استخدم مثلاً YYYYMMDD.`,
+    en: p => `The date format in "{date:${p.arg}}" has no fields. Use e.g. YYYYMMDD.`
+  }),
+  templateNoArgument: message<{ token: string }>({
+    ar: p => `الرمز {${p.token}} لا يقبل إعدادات بعد النقطتين.`,
+    en: p => `The token {${p.token}} takes no argument after the colon.`
+  }),
+  nameTemplate: message<{ error: string }>({
+    ar: p => `قالب الاسم: ${p.error}`,
+    en: p => `Name template: ${p.error}`
+  }),
+
+  // Test-safe mode (validateTestRanges / validateSafePattern)
+  testRangesInvalid: message<{ ranges: string[]; profile: NumberingProfile; maxLength: number }>({
+    ar: p => `نطاقات الاختبار غير صالحة لأرقام ${profileName(p.profile, 'ar')}: [ ${p.ranges.join(' ')} ]. يجب أن تبدأ بمقدمة جوال وألا تتجاوز ${p.maxLength} خانات.`,
+    en: p => `Invalid test ranges for numbers in ${profileName(p.profile, 'en')}: [ ${p.ranges.join(' ')} ]. They must start with a mobile prefix and be at most ${p.maxLength} digits long.`
+  }),
+  safeModeNoRanges: message<{ profile: NumberingProfile }>({
+    ar: p => `الوضع الآمن مفعّل، ولا يحدد ملف ترقيم ${profileName(p.profile, 'ar')} نطاقات اختبار. أضف نطاق اختبار تملكه أو أوقف الوضع الآمن.`,
+    en: p => `Test-safe mode is on and the ${profileName(p.profile, 'en')} profile defines no test ranges. Add a test range you own or turn test-safe mode off.`
+  }),
+  safeModeOutsideRanges: message<{ ranges: string[] }>({
+    ar: p => `الوضع الآمن مفعّل: يجب أن يبدأ النمط بأحد نطاقات الاختبار [ ${p.ranges.join(' ')} ] بأرقام ثابتة.`,
+    en: p => `Test-safe mode is on: the pattern must start with one of the test ranges [ ${p.ranges.join(' ')} ] as fixed digits.`
+  }),
+  testRangesWithoutSafeMode: message({
+    ar: () => 'نطاقات الاختبار تُستخدم في الوضع الآمن فقط. فعّل الوضع الآمن أو احذف النطاقات.',
+    en: () => 'Test ranges are only used in test-safe mode. Turn test-safe mode on or remove the ranges.'
+  }),
+
+  // Generation settings checked by the app form and the fixture library
+  seedInvalid: message({
+    ar: () => 'قيمة البذرة غير صحيحة. يجب أن تكون رقماً صحيحاً بين 0 و 4294967295.',
+    en: () => 'Invalid seed. It must be a whole number between 0 and 4294967295.'
+  }),
+  countOutOfRange: message<{ max: number }>({
+    ar: p => `العدد يجب أن يكون بين 1 و ${p.max}.`,
+    en: p => `The count must be between 1 and ${p.max}.`
+  }),
+  prefixEmpty: message({
+    ar: () => 'يرجى إدخال اسم لتمييز جهات الاتصال.',
+    en: () => 'Please enter a name to tell the contacts apart.'
+  }),
+
+  // Run summary (describeGenerationResult)
+  summaryComplete: message<{ requested: number; produced: number }>({
+    ar: p => `طُلب ${p.requested} رقم وتم توليد ${p.produced}.`,
+    en: p => `Requested ${p.requested} numbers, generated ${p.produced}.`
+  }),
+  summaryExhausted: message<{ requested: number; produced: number }>({
+    ar: p => `طُلب ${p.requested} رقم وتم توليد ${p.produced} فقط، يبدو أن الأرقام المتاحة لهذا النمط قد نفدت.`,
+    en: p => `Requested ${p.requested} numbers but generated only ${p.produced}: the pattern seems to have run out of numbers.`
+  }),
+  summaryRejected: message<{ requested: number; produced: number; reason: RejectionReason; attempts: number }>({
+    ar: p => `طُلب ${p.requested} رقم وتم توليد ${p.produced} فقط، كان ${REJECTION_PHRASES.ar[p.reason]} القيد الرئيسي (${p.attempts} محاولة).`,
+    en: p => `Requested ${p.requested} numbers but generated only ${p.produced}: ${REJECTION_PHRASES.en[p.reason]} held the run back (${p.attempts} attempts).`
+  }),
+  summaryOutOfAttempts: message<{ requested: number; produced: number; attempts: number }>({
+    ar: p => `طُلب ${p.requested} رقم وتم توليد ${p.produced} فقط، انتهت المحاولات المسموحة (${p.attempts} محاولة).`,
+    en: p => `Requested ${p.requested} numbers but generated only ${p.produced}: the attempt budget ran out (${p.attempts} attempts).`
+  }),
+
+  // Violation details (verifyContacts)
+  violationDuplicate: message({
+    ar: () => 'الرقم موجود أكثر من مرة في القائمة.',
+    en: () => 'The number appears more than once in the list.'
+  }),
+  violationPattern: message<{ pattern: string }>({
+    ar: p => `الرقم لا يطابق النمط ${p.pattern}.`,
+    en: p => `The number does not match the pattern ${p.pattern}.`
+  }),
+  violationFrequency: message<{ digit: number; count: number; limit: number }>({
+    ar: p => `الرقم ${p.digit} تكرر ${p.count} مرات في الخانات المتغيرة (الحد ${p.limit}).`,
+    en: p => `The digit ${p.digit} appears ${p.count} times in the free slots (limit ${p.limit}).`
+  }),
+  violationRun: message<{ digits: string; limit: number }>({
+    ar: p => `تكرار متتالي "${p.digits}" (الحد ${p.limit}).`,
+    en: p => `Run "${p.digits}" (limit ${p.limit}).`
+  }),
+  violationSequence: message<{ digits: string; limit: number }>({
+    ar: p => `تسلسل "${p.digits}" (الحد ${p.limit}).`,
+    en: p => `Sequence "${p.digits}" (limit ${p.limit}).`
+  }),
+  violationForbidden: message<{ substring: string }>({
+    ar: p => `يحتوي على المقطع الممنوع "${p.substring}".`,
+    en: p => `Contains the forbidden substring "${p.substring}".`
+  })
+};
+
+export type MessageKey = keyof typeof MESSAGES;
+export type MessageParams<K extends MessageKey> = Parameters<(typeof MESSAGES)[K]['ar']>[0];
+
+/**
+ * Renders a message in the given language.
+ */
+export const formatMessage = <K extends MessageKey>(
+  language: MessageLanguage,
+  key: K,
+  ...params: MessageParams<K> extends void ? [] : [MessageParams<K>]
+): string => {
+  const translate = MESSAGES[key][language] as (params?: MessageParams<K>) => string;
+  return translate(params[0]);
+};
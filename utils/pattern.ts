@@ -0,0 +1,142 @@
+import { PatternSlot } from '../types';
+import { formatMessage, MessageLanguage } from './messages';
+
+const ALL_DIGITS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+export type PatternParseResult =
+  | { slots: PatternSlot[]; error: null }
+  | { slots: null; error: string };
+
+/**
+ * Splits a pattern into one token per slot without validating it.
+ * Used by the slot grid, which has to render half-typed patterns too.
+ * An unclosed class swallows the rest of the pattern as a single token.
+ */
+export const splitPatternTokens = (pattern: string): string[] => {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < pattern.length) {
+    if (pattern[i] === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      const stop = end === -1 ? pattern.length : end + 1;
+      tokens.push(pattern.slice(i, stop));
+      i = stop;
+    } else {
+      tokens.push(pattern[i]);
+      i++;
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Parses the body of a bracket class such as "035", "2-7" or "^0-4".
+ * Returns the sorted digit set, or an error message.
+ */
+const parseClass = (token: string, language: MessageLanguage): number[] | string => {
+  const body = token.slice(1, -1);
+  const negated = body.startsWith('^');
+  const items = negated ? body.slice(1) : body;
+
+  if (items.length === 0) {
+    return formatMessage(language, 'classEmpty', { token });
+  }
+
+  const invalid = items.match(/[^0-9-]/g);
+  if (invalid) {
+    return formatMessage(language, 'classInvalidChars', { token, chars: Array.from(new Set(invalid)) });
+  }
+
+  const selected = new Set<number>();
+  let i = 0;
+  while (i < items.length) {
+    const char = items[i];
+    if (char === '-') {
+      return formatMessage(language, 'classRangeIncomplete', { token });
+    }
+    if (items[i + 1] === '-') {
+      const endChar = items[i + 2];
+      if (endChar === undefined || endChar === '-') {
+        return formatMessage(language, 'classRangeIncomplete', { token });
+      }
+      const from = Number(char);
+      const to = Number(endChar);
+      if (from > to) {
+        return formatMessage(language, 'classRangeReversed', { range: `${char}-${endChar}` });
+      }
+      for (let d = from; d <= to; d++) selected.add(d);
+      i += 3;
+    } else {
+      selected.add(Number(char));
+      i++;
+    }
+  }
+
+  const digits = negated
+    ? ALL_DIGITS.filter(d => !selected.has(d))
+    : ALL_DIGITS.filter(d => selected.has(d));
+
+  if (digits.length === 0) {
+    return formatMessage(language, 'classExcludesAll', { token });
+  }
+  return digits;
+};
+
+/**
+ * Parses a pattern into slots.
+ * Grammar: a digit is fixed, "_" is any digit, "[035]" is a set, "[2-7]" a range
+ * and "[^0-4]" a negated set. Ranges and single digits can be mixed: "[0-35]".
+ */
+export const parsePattern = (pattern: string, language: MessageLanguage = 'ar'): PatternParseResult => {
+  const slots: PatternSlot[] = [];
+
+  for (const token of splitPatternTokens(pattern)) {
+    if (token.startsWith('[')) {
+      if (!token.endsWith(']') || token.length < 2) {
+        return { slots: null, error: formatMessage(language, 'classUnclosed', { token }) };
+      }
+      if (token.slice(1, -1).includes('[')) {
+        return { slots: null, error: formatMessage(language, 'classNested', { token }) };
+      }
+      const digits = parseClass(token, language);
+      if (typeof digits === 'string') return { slots: null, error: digits };
+      slots.push({ token, digits, isFixed: false });
+    } else if (token === ']') {
+      return { slots: null, error: formatMessage(language, 'classUnopened') };
+    } else if (token === '_') {
+      slots.push({ token, digits: ALL_DIGITS, isFixed: false });
+    } else if (/^[0-9]$/.test(token)) {
+      slots.push({ token, digits: [Number(token)], isFixed: true });
+    } else {
+      return { slots: null, error: formatMessage(language, 'patternInvalidChars', { chars: [token] }) };
+    }
+  }
+
+  return { slots, error: null };
+};
+
+/**
+ * Parses a pattern that is already known to be valid.
+ * Throws with the Arabic validation message otherwise.
+ */
+export const requirePatternSlots = (pattern: string): PatternSlot[] => {
+  const parsed = parsePattern(pattern);
+  if (parsed.error !== null) throw new Error(parsed.error);
+  return parsed.slots;
+};
+
+/**
+ * Builds an example number for previews without running the generator: fixed digits
+ * are kept and each free slot cycles through its allowed digits, offset by `variant`.
+ * The example is not checked against the constraints.
+ */
+export const createSampleNumber = (slots: PatternSlot[], variant = 0): string => {
+  return slots.map((slot, index) => slot.digits[(index + variant) % slot.digits.length]).join('');
+};
+
+/**
+ * Short label for a class slot in the grid, e.g. "035" or "2-7".
+ */
+export const describeSlotToken = (token: string): string => {
+  return token.startsWith('[') ? token.replace(/^\[|\]$/g, '') : token;
+};
@@ -0,0 +1,87 @@
+import { GeneratedContact, NumberFormat, NumberingProfile } from '../types';
+import { getLocalLength, getLockedPrefix, getProfile } from './profiles';
+
+/**
+ * Replaces Arabic-Indic (٠-٩) and Persian (۰-۹) digits with ASCII digits.
+ * Phone books on Arabic devices often store numbers this way.
+ */
+export const toAsciiDigits = (value: string): string => {
+  return value.replace(/[\u0660-\u0669\u06f0-\u06f9]/g, char => {
+    const code = char.charCodeAt(0);
+    return String(code >= 0x06f0 ? code - 0x06f0 : code - 0x0660);
+  });
+};
+
+/**
+ * Converts a local number (e.g. 0512345678) to E.164 (+966512345678).
+ * Numbers already written internationally ('+...' or '00...') are only cleaned up.
+ * @param trunkPrefix - Leading digit(s) dropped when dialling from abroad, '0' in most Arab countries
+ */
+export const toE164 = (number: string, countryCode: string, trunkPrefix = '0'): string => {
+  const trimmed = number.trim();
+  if (trimmed.startsWith('+')) return '+' + trimmed.replace(/\D/g, '');
+
+  const digits = trimmed.replace(/\D/g, '');
+  if (digits.startsWith('00')) return '+' + digits.slice(2);
+
+  const national = trunkPrefix && digits.startsWith(trunkPrefix)
+    ? digits.slice(trunkPrefix.length)
+    : digits;
+  return `+${countryCode}${national}`;
+};
+
+/**
+ * Formats a contact's number in the requested style, using the profile it was generated with
+ * (or the fallback profile for contacts created before profiles were recorded).
+ */
+export const formatContactNumber = (
+  contact: GeneratedContact,
+  format: NumberFormat,
+  fallbackProfileId?: string
+): string => {
+  if (format === 'local') return contact.number;
+  const profile = getProfile(contact.profileId ?? fallbackProfileId);
+  return toE164(contact.number, profile.countryCode, profile.trunkPrefix);
+};
+
+/**
+ * International digits without '+', as expected by https://wa.me/<number>.
+ */
+export const toWhatsAppNumber = (contact: GeneratedContact, fallbackProfileId?: string): string => {
+  return formatContactNumber(contact, 'international', fallbackProfileId).slice(1);
+};
+
+/**
+ * E.164 with '+', as expected by https://t.me/+<number>.
+ */
+export const toTelegramNumber = (contact: GeneratedContact, fallbackProfileId?: string): string => {
+  return formatContactNumber(contact, 'international', fallbackProfileId);
+};
+
+/**
+ * Converts any common way of writing a number (+966 51..., 00966..., 966..., 051...)
+ * back to the profile's local form, e.g. 0512345678. Formatting characters are dropped.
+ */
+export const toLocalNumber = (raw: string, profile: NumberingProfile): string => {
+  const trimmed = toAsciiDigits(raw.trim());
+  let digits = trimmed.replace(/\D/g, '');
+  const isInternational = trimmed.startsWith('+') || digits.startsWith('00');
+  if (digits.startsWith('00')) digits = digits.slice(2);
+
+  const nationalLength = getLocalLength(profile) - profile.trunkPrefix.length;
+  const hasCountryCode = digits.startsWith(profile.countryCode)
+    && (isInternational || digits.length === profile.countryCode.length + nationalLength);
+
+  if (hasCountryCode) {
+    return profile.trunkPrefix + digits.slice(profile.countryCode.length);
+  }
+  return digits;
+};
+
+/**
+ * Checks that a local number has the profile's length and one of its mobile prefixes.
+ */
+export const isValidLocalNumber = (number: string, profile: NumberingProfile): boolean => {
+  if (!/^[0-9]+$/.test(number) || number.length !== getLocalLength(profile)) return false;
+  return profile.mobilePrefixes.some(prefix => number.startsWith(getLockedPrefix(profile, prefix)));
+};
@@ -0,0 +1,59 @@
+import { NumberingProfile } from '../types';
+
+/**
+ * Built-in national numbering profiles (mobile ranges only).
+ * A local number is trunkPrefix + one mobile prefix + subscriberLength digits.
+ * None of these plans publishes a fictional or test-only mobile range (like the UK's
+ * 07700 900xxx), so testRanges stay empty until one is; test-safe mode then relies on
+ * the ranges the user adds.
+ */
+export const NUMBERING_PROFILES: NumberingProfile[] = [
+  { id: 'sa', name: 'السعودية', englishName: 'Saudi Arabia', countryCode: '966', trunkPrefix: '0', mobilePrefixes: ['5'], subscriberLength: 8, testRanges: [] },
+  { id: 'ae', name: 'الإمارات', englishName: 'the UAE', countryCode: '971', trunkPrefix: '0', mobilePrefixes: ['50', '52', '54', '55', '56', '58'], subscriberLength: 7, testRanges: [] },
+  { id: 'eg', name: 'مصر', englishName: 'Egypt', countryCode: '20', trunkPrefix: '0', mobilePrefixes: ['10', '11', '12', '15'], subscriberLength: 8, testRanges: [] },
+  { id: 'kw', name: 'الكويت', englishName: 'Kuwait', countryCode: '965', trunkPrefix: '', mobilePrefixes: ['5', '6', '9'], subscriberLength: 7, testRanges: [] },
+  { id: 'qa', name: 'قطر', englishName: 'Qatar', countryCode: '974', trunkPrefix: '', mobilePrefixes: ['3', '5', '6', '7'], subscriberLength: 7, testRanges: [] },
+  { id: 'bh', name: 'البحرين', englishName: 'Bahrain', countryCode: '973', trunkPrefix: '', mobilePrefixes: ['3'], subscriberLength: 7, testRanges: [] },
+  { id: 'om', name: 'عُمان', englishName: 'Oman', countryCode: '968', trunkPrefix: '', mobilePrefixes: ['7', '9'], subscriberLength: 7, testRanges: [] },
+  { id: 'jo', name: 'الأردن', englishName: 'Jordan', countryCode: '962', trunkPrefix: '0', mobilePrefixes: ['77', '78', '79'], subscriberLength: 7, testRanges: [] },
+  { id: 'iq', name: 'العراق', englishName: 'Iraq', countryCode: '964', trunkPrefix: '0', mobilePrefixes: ['75', '77', '78', '79'], subscriberLength: 8, testRanges: [] }
+];
+
+export const DEFAULT_PROFILE_ID = 'sa';
+
+/**
+ * Looks up a profile by id, falling back to the default profile.
+ */
+export const getProfile = (id?: string): NumberingProfile => {
+  return NUMBERING_PROFILES.find(p => p.id === id)
+    ?? NUMBERING_PROFILES.find(p => p.id === DEFAULT_PROFILE_ID)!;
+};
+
+/**
+ * Fixed leading digits of a local number: trunk prefix followed by the mobile prefix.
+ */
+export const getLockedPrefix = (profile: NumberingProfile, mobilePrefix: string): string => {
+  return profile.trunkPrefix + mobilePrefix;
+};
+
+/**
+ * Total slots in a local number for this profile.
+ * All mobile prefixes of a profile share one length, so the first one is representative.
+ */
+export const getLocalLength = (profile: NumberingProfile): number => {
+  return profile.trunkPrefix.length + profile.mobilePrefixes[0].length + profile.subscriberLength;
+};
+
+/**
+ * Default pattern for a profile: locked prefix followed by free slots.
+ */
+export const createDefaultPattern = (profile: NumberingProfile, mobilePrefix = profile.mobilePrefixes[0]): string => {
+  return getLockedPrefix(profile, mobilePrefix) + '_'.repeat(profile.subscriberLength);
+};
+
+/**
+ * Returns the mobile prefix a pattern starts with, or null if it matches none.
+ */
+export const detectMobilePrefix = (profile: NumberingProfile, pattern: string): string | null => {
+  return profile.mobilePrefixes.find(prefix => pattern.startsWith(getLockedPrefix(profile, prefix))) ?? null;
+};
@@ -0,0 +1,84 @@
+import { Project, SessionSettings } from '../types';
+import { DEFAULT_REPETITION_DENSITY } from './constraints';
+import { DEFAULT_EXPORT_COLUMNS } from './exporters';
+import { createDefaultPattern, DEFAULT_PROFILE_ID, getProfile } from './profiles';
+import { createRandomSeed } from './random';
+import { DEFAULT_NAME_TEMPLATE } from './template';
+
+export const DEFAULT_PROJECT_NAME = 'المشروع الأول';
+
+/**
+ * Settings of a fresh project: default profile, empty count and the balanced density preset.
+ */
+export const createDefaultSettings = (): SessionSettings => {
+  const profile = getProfile(DEFAULT_PROFILE_ID);
+  return {
+    profileId: profile.id,
+    mobilePrefix: profile.mobilePrefixes[0],
+    pattern: createDefaultPattern(profile),
+    count: '',
+    contactNamePrefix: 'TEST <',
+    numberFormat: 'local',
+    vcardVersion: '3.0',
+    showAdvanced: false,
+    repetitionDensity: DEFAULT_REPETITION_DENSITY,
+    seedInput: '',
+    enumerationOrder: 'shuffle',
+    customConstraints: null,
+    forbiddenInput: '',
+    duplicateScope: 'project',
+    nameTemplate: DEFAULT_NAME_TEMPLATE,
+    orgTemplate: '',
+    noteTemplate: '',
+    exportFormat: 'vcf',
+    exportColumns: [...DEFAULT_EXPORT_COLUMNS],
+    csvDelimiter: ',',
+    exportChunkSize: null,
+    safeMode: true,
+    testRangesInput: '',
+    deepLinkWhitelistInput: ''
+  };
+};
+
+const createProjectId = (): string => `p_${Date.now().toString(36)}_${createRandomSeed().toString(36)}`;
+
+export const createProject = (name: string, settings: SessionSettings = createDefaultSettings()): Project => ({
+  id: createProjectId(),
+  name,
+  createdAt: Date.now(),
+  settings,
+  contacts: [],
+  importedNumbers: [],
+  exportHistory: [],
+  batches: [],
+  nextSerial: 1
+});
+
+/**
+ * Copies a project with everything in it (settings, contacts, saved flags and history) under a new id.
+ */
+export const duplicateProject = (project: Project, name: string): Project => ({
+  ...project,
+  id: createProjectId(),
+  name,
+  createdAt: Date.now(),
+  settings: { ...project.settings },
+  contacts: project.contacts.map(c => ({ ...c })),
+  importedNumbers: [...project.importedNumbers],
+  exportHistory: [...project.exportHistory],
+  batches: project.batches.map(batch => ({ ...batch }))
+});
+
+/**
+ * Every number held by the other projects (their lists and imported numbers),
+ * used when duplicate checks span all projects.
+ */
+export const collectOtherProjectNumbers = (projects: Project[], activeProjectId: string): Set<string> => {
+  const numbers = new Set<string>();
+  for (const project of projects) {
+    if (project.id === activeProjectId) continue;
+    project.contacts.forEach(c => numbers.add(c.number));
+    project.importedNumbers.forEach(n => numbers.add(n));
+  }
+  return numbers;
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom, MAX_SEED, parseSeed, randomInt } from './random';
+
+describe('parseSeed', () => {
+  it('accepts whole numbers up to MAX_SEED', () => {
+    expect(parseSeed('42')).toBe(42);
+    expect(parseSeed(' 0 ')).toBe(0);
+    expect(parseSeed(MAX_SEED)).toBe(MAX_SEED);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseSeed('')).toBeNull();
+    expect(parseSeed('-1')).toBeNull();
+    expect(parseSeed('1.5')).toBeNull();
+    expect(parseSeed('abc')).toBeNull();
+    expect(parseSeed(MAX_SEED + 1)).toBeNull();
+  });
+});
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(7);
+    const b = createSeededRandom(7);
+    const first = Array.from({ length: 20 }, () => a());
+    expect(Array.from({ length: 20 }, () => b())).toEqual(first);
+    expect(first.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('gives different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+    expect(Array.from({ length: 5 }, () => a())).not.toEqual(Array.from({ length: 5 }, () => b()));
+  });
+});
+
+describe('randomInt', () => {
+  it('stays within [0, max)', () => {
+    const random = createSeededRandom(3);
+    const values = Array.from({ length: 1000 }, () => randomInt(random, 10));
+    expect(Math.min(...values)).toBe(0);
+    expect(Math.max(...values)).toBe(9);
+  });
+});
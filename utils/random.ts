@@ -0,0 +1,50 @@
+import { RandomSource } from '../types';
+
+/**
+ * Largest seed value accepted. Seeds are treated as unsigned 32-bit integers.
+ */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Creates a fresh seed for a generation run when the user did not supply one.
+ */
+export const createRandomSeed = (): number => {
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * MAX_SEED);
+};
+
+/**
+ * Normalizes any user input into a valid 32-bit seed, or null if it is not a number.
+ */
+export const parseSeed = (value: string | number): number | null => {
+  const text = String(value).trim();
+  if (!/^\d+$/.test(text)) return null;
+
+  const parsed = Number(text);
+  if (!Number.isSafeInteger(parsed) || parsed > MAX_SEED) return null;
+  return parsed;
+};
+
+/**
+ * Mulberry32 PRNG.
+ * Small, fast and good enough for test data; the same seed always yields the same sequence.
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Returns a random integer in [0, max).
+ */
+export const randomInt = (random: RandomSource, max: number): number => {
+  return Math.floor(random() * max);
+};
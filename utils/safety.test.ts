@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedContact } from '../types';
+import { getProfile } from './profiles';
+import { isDeepLinkAllowed, parseDigitList, validateSafePattern, validateTestRanges } from './safety';
+
+const saudi = getProfile('sa');
+
+const contact = (source: GeneratedContact['source']): GeneratedContact => ({
+  id: '0001',
+  number: '0551234567',
+  name: 'TEST',
+  isSaved: false,
+  source
+});
+
+describe('parseDigitList', () => {
+  it('splits on commas, Arabic commas and spaces', () => {
+    expect(parseDigitList('0550, 0551،0552  0553')).toEqual(['0550', '0551', '0552', '0553']);
+    expect(parseDigitList('  ')).toEqual([]);
+  });
+});
+
+describe('validateTestRanges', () => {
+  it('accepts ranges that start with a mobile prefix', () => {
+    expect(validateTestRanges(['0550', '0551234567'], saudi)).toBeNull();
+  });
+
+  it('lists every invalid range', () => {
+    const error = validateTestRanges(['0650', '05a', '05512345678'], saudi);
+    expect(error).toContain('0650 05a 05512345678');
+  });
+});
+
+describe('validateSafePattern', () => {
+  it('requires at least one range', () => {
+    expect(validateSafePattern('05________', [], saudi)).not.toBeNull();
+  });
+
+  it('requires the range digits to be fixed in the pattern', () => {
+    expect(validateSafePattern('0550______', ['0550'], saudi)).toBeNull();
+    expect(validateSafePattern('055[0]______', ['0550'], saudi)).toBeNull();
+    expect(validateSafePattern('055_______', ['0550'], saudi)).not.toBeNull();
+    expect(validateSafePattern('055[01]______', ['0550'], saudi)).not.toBeNull();
+  });
+});
+
+describe('isDeepLinkAllowed', () => {
+  it('allows everything while safe mode is off', () => {
+    expect(isDeepLinkAllowed(contact('generated'), false, new Set())).toBe(true);
+  });
+
+  it('blocks generated numbers unless whitelisted', () => {
+    expect(isDeepLinkAllowed(contact('generated'), true, new Set())).toBe(false);
+    expect(isDeepLinkAllowed(contact(undefined), true, new Set())).toBe(false);
+    expect(isDeepLinkAllowed(contact('generated'), true, new Set(['0551234567']))).toBe(true);
+  });
+
+  it('keeps links of manual and imported contacts', () => {
+    expect(isDeepLinkAllowed(contact('manual'), true, new Set())).toBe(true);
+    expect(isDeepLinkAllowed(contact('imported'), true, new Set())).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { GeneratedContact, NumberingProfile } from '../types';
+import { getLocalLength, getLockedPrefix } from './profiles';
+import { parsePattern } from './pattern';
+import { formatMessage, MessageLanguage } from './messages';
+
+// Written into NOTE / CATEGORIES of every generated contact while test-safe mode is on
+export const TEST_DATA_NOTE = 'بيانات اختبار - TEST DATA';
+export const TEST_DATA_CATEGORY = 'TEST';
+
+/**
+ * Splits a comma / space separated list of digit strings (ranges or whitelisted numbers).
+ */
+export const parseDigitList = (input: string): string[] => {
+  return input.split(/[\s,،]+/).filter(Boolean);
+};
+
+/**
+ * Ranges test-safe mode may generate from: the profile's reserved/fictional ranges
+ * plus the ones the user added (e.g. test SIM ranges the team owns).
+ */
+export const getTestRanges = (profile: NumberingProfile, customRanges: string[]): string[] => {
+  return Array.from(new Set([...profile.testRanges, ...customRanges]));
+};
+
+/**
+ * Checks user-entered ranges: digits only, starting with one of the profile's
+ * mobile prefixes and no longer than a full number. Returns an error message or null.
+ */
+export const validateTestRanges = (
+  ranges: string[],
+  profile: NumberingProfile,
+  language: MessageLanguage = 'ar'
+): string | null => {
+  const localLength = getLocalLength(profile);
+  const invalid = ranges.filter(range => !/^[0-9]+$/.test(range)
+    || range.length > localLength
+    || !profile.mobilePrefixes.some(prefix => {
+      const locked = getLockedPrefix(profile, prefix);
+      return range.length >= locked.length && range.startsWith(locked);
+    }));
+  if (invalid.length > 0) {
+    return formatMessage(language, 'testRangesInvalid', { ranges: invalid, profile, maxLength: localLength });
+  }
+  return null;
+};
+
+/**
+ * Whether every number the pattern can produce lies inside `range`: each digit of the
+ * range must be pinned to the same digit in the pattern.
+ */
+const isPatternInRange = (pattern: string, range: string): boolean => {
+  const { slots } = parsePattern(pattern);
+  if (!slots || slots.length < range.length) return false;
+  // A single-digit class such as [5] pins the digit as firmly as a literal
+  return Array.from(range).every((digit, index) => {
+    const { digits } = slots[index];
+    return digits.length === 1 && digits[0] === Number(digit);
+  });
+};
+
+/**
+ * Test-safe mode check for a pattern that already passed validatePattern.
+ * Returns an error message when the pattern can leave every test range, or null.
+ */
+export const validateSafePattern = (
+  pattern: string,
+  ranges: string[],
+  profile: NumberingProfile,
+  language: MessageLanguage = 'ar'
+): string | null => {
+  if (ranges.length === 0) {
+    return formatMessage(language, 'safeModeNoRanges', { profile });
+  }
+  if (!ranges.some(range => isPatternInRange(pattern, range))) {
+    return formatMessage(language, 'safeModeOutsideRanges', { ranges });
+  }
+  return null;
+};
+
+/**
+ * Generated numbers may belong to real people, so in test-safe mode their WhatsApp /
+ * Telegram links stay disabled unless the number was whitelisted. Manual and imported
+ * contacts are the user's own entries and always keep their links.
+ */
+export const isDeepLinkAllowed = (contact: GeneratedContact, safeMode: boolean, whitelist: Set<string>): boolean => {
+  if (!safeMode) return true;
+  if (contact.source === 'manual' || contact.source === 'imported') return true;
+  return whitelist.has(contact.number);
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { migrateSession, STORAGE_SCHEMA_VERSION } from './storage';
+
+// Shape written by the first persisted version: one global list
+const VERSION_1_RECORD = {
+  schemaVersion: 1,
+  savedAt: 1000,
+  settings: { pattern: '05________', count: '10', contactNamePrefix: 'TEST <' },
+  contacts: [
+    { id: '2', number: '0500000002', name: '0002 TEST <', isSaved: true, seed: 7 },
+    { id: '1', number: '0500000001', name: '0001 TEST <', isSaved: false, seed: 7 }
+  ],
+  importedNumbers: ['0599999999']
+};
+
+describe('migrateSession', () => {
+  it('upgrades a version 1 record to the current schema', () => {
+    const session = migrateSession(structuredClone(VERSION_1_RECORD))!;
+    expect(session.schemaVersion).toBe(STORAGE_SCHEMA_VERSION);
+    expect(session.projects).toHaveLength(1);
+
+    const [project] = session.projects;
+    expect(project.importedNumbers).toEqual(['0599999999']);
+    expect(project.contacts.map(c => [c.serial, c.batchId, c.source])).toEqual([
+      [2, 'legacy', 'generated'],
+      [1, 'legacy', 'generated']
+    ]);
+    expect(project.nextSerial).toBe(3);
+    expect(project.batches).toHaveLength(1);
+    expect(project.batches[0]).toMatchObject({ id: 'legacy', number: 1, seed: 7, exported: false });
+    expect(project.settings).toMatchObject({
+      pattern: '05________',
+      duplicateScope: 'project',
+      exportFormat: 'vcf',
+      exportChunkSize: null,
+      safeMode: true
+    });
+  });
+
+  it('turns test-safe mode on for existing projects', () => {
+    const session = migrateSession({ schemaVersion: 8, projects: [{ id: 'p', settings: { pattern: '05________' } }] })!;
+    expect(session.projects[0].settings).toMatchObject({ safeMode: true, testRangesInput: '', deepLinkWhitelistInput: '' });
+  });
+
+  it('refuses records from a newer version', () => {
+    expect(migrateSession({ schemaVersion: STORAGE_SCHEMA_VERSION + 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+import { PersistedSession } from '../types';
+import { DEFAULT_EXPORT_COLUMNS } from './exporters';
+import { DEFAULT_PROJECT_NAME } from './projects';
+import { DEFAULT_NAME_TEMPLATE } from './template';
+
+const DB_NAME = 'whatsapp-x';
+// IndexedDB version: bump only when object stores or indexes change
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'current';
+
+// Version of the PersistedSession shape. Bump it whenever GeneratedContact or the
+// settings change, and add a migration from the previous version below.
+export const STORAGE_SCHEMA_VERSION = 9;
+
+// Id given to the single list of version 1 when it becomes a project
+const MIGRATED_PROJECT_ID = 'default';
+// Batch of contacts created before batches were recorded
+const LEGACY_BATCH_ID = 'legacy';
+
+type StoredRecord = Record<string, unknown>;
+
+const isStoredRecord = (value: unknown): value is StoredRecord => typeof value === 'object' && value !== null;
+
+// Object items of a stored array; a missing or malformed field counts as empty
+const getRecords = (value: unknown): StoredRecord[] => (Array.isArray(value) ? value.filter(isStoredRecord) : []);
+
+const getSettings = (project: StoredRecord): StoredRecord => (isStoredRecord(project.settings) ? project.settings : {});
+
+const mapProjects = (record: StoredRecord, update: (project: StoredRecord) => StoredRecord): StoredRecord => ({
+  ...record,
+  projects: getRecords(record.projects).map(update)
+});
+
+const updateSettings = (record: StoredRecord, changes: StoredRecord): StoredRecord => {
+  return mapProjects(record, project => ({ ...project, settings: { ...getSettings(project), ...changes } }));
+};
+
+/**
+ * MIGRATIONS[n] upgrades a stored record from schema version n to n + 1.
+ * Records are plain objects here since older shapes no longer match the current types,
+ * so every field is narrowed before it is used.
+ */
+const MIGRATIONS: Record<number, (record: StoredRecord) => StoredRecord> = {
+  // 1 -> 2: the single global list becomes the first project
+  1: record => ({
+    savedAt: record.savedAt,
+    activeProjectId: MIGRATED_PROJECT_ID,
+    projects: [{
+      id: MIGRATED_PROJECT_ID,
+      name: DEFAULT_PROJECT_NAME,
+      createdAt: record.savedAt ?? Date.now(),
+      settings: { ...getSettings(record), duplicateScope: 'project' },
+      contacts: record.contacts ?? [],
+      importedNumbers: record.importedNumbers ?? [],
+      exportHistory: []
+    }]
+  }),
+  // 2 -> 3: contacts get permanent serials (taken from their current ids) and a batch
+  2: record => mapProjects(record, project => {
+    const contacts = getRecords(project.contacts).map((c, index) => ({
+      ...c,
+      serial: Number(c.id) || index + 1,
+      batchId: LEGACY_BATCH_ID,
+      createdAt: project.createdAt
+    }));
+    return {
+      ...project,
+      contacts,
+      nextSerial: contacts.reduce((max, c) => Math.max(max, c.serial), 0) + 1
+    };
+  }),
+  // 3 -> 4: name templates; the default one matches the previous fixed naming
+  3: record => updateSettings(record, { nameTemplate: DEFAULT_NAME_TEMPLATE, orgTemplate: '', noteTemplate: '' }),
+  // 4 -> 5: batch history, rebuilt from the batch ids already on the contacts
+  4: record => mapProjects(record, project => {
+    const groups = new Map<unknown, StoredRecord[]>();
+    for (const c of getRecords(project.contacts)) {
+      groups.set(c.batchId, [...(groups.get(c.batchId) ?? []), c]);
+    }
+    const batches = Array.from(groups.entries())
+      .map(([id, contacts]) => ({
+        id,
+        contacts,
+        timestamp: Math.min(...contacts.map(c => (typeof c.createdAt === 'number' ? c.createdAt : Date.now())))
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(({ id, contacts, timestamp }, index) => ({
+        id,
+        number: index + 1,
+        timestamp,
+        source: 'generated',
+        config: null,
+        options: null,
+        seed: contacts[0].seed ?? null,
+        numbers: contacts.map(c => c.number),
+        exported: contacts.every(c => c.isSaved === true)
+      }));
+    return { ...project, batches };
+  }),
+  // 5 -> 6: contacts record their source, taken from their batch
+  5: record => mapProjects(record, project => {
+    const sources = new Map(getRecords(project.batches).map(b => [b.id, b.source]));
+    return {
+      ...project,
+      contacts: getRecords(project.contacts).map(c => ({ ...c, source: sources.get(c.batchId) ?? 'generated' }))
+    };
+  }),
+  // 6 -> 7: export format settings; VCF stays the default so existing projects export as before
+  6: record => updateSettings(record, { exportFormat: 'vcf', exportColumns: DEFAULT_EXPORT_COLUMNS, csvDelimiter: ',' }),
+  // 7 -> 8: chunked exports, off so existing projects keep exporting one file
+  7: record => updateSettings(record, { exportChunkSize: null }),
+  // 8 -> 9: test-safe mode, on like in new projects; generation waits until a test range is added
+  8: record => updateSettings(record, { safeMode: true, testRangesInput: '', deepLinkWhitelistInput: '' })
+};
+
+/**
+ * Brings a stored record up to STORAGE_SCHEMA_VERSION.
+ * Returns null for records written by a newer version of the app, which cannot be read safely.
+ */
+export const migrateSession = (record: Record<string, unknown>): PersistedSession | null => {
+  let current = record;
+  let version = typeof current.schemaVersion === 'number' ? current.schemaVersion : 0;
+  if (version > STORAGE_SCHEMA_VERSION) return null;
+
+  while (version < STORAGE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    current = { ...migrate(current), schemaVersion: version + 1 };
+    version++;
+  }
+  return current as unknown as PersistedSession;
+};
+
+const isIndexedDBAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs one request in its own transaction and closes the database afterwards.
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(SESSION_STORE, mode);
+      const request = makeRequest(transaction.objectStore(SESSION_STORE));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Loads the saved session, migrated to the current schema.
+ * Returns null when nothing was saved yet or IndexedDB is unavailable (e.g. some private modes).
+ */
+export const loadSession = async (): Promise<PersistedSession | null> => {
+  if (!isIndexedDBAvailable()) return null;
+  const record = await runRequest<Record<string, unknown> | undefined>('readonly', store => store.get(SESSION_KEY));
+  return record ? migrateSession(record) : null;
+};
+
+export const saveSession = async (session: Omit<PersistedSession, 'schemaVersion' | 'savedAt'>): Promise<void> => {
+  if (!isIndexedDBAvailable()) return;
+  const record: PersistedSession = { ...session, schemaVersion: STORAGE_SCHEMA_VERSION, savedAt: Date.now() };
+  await runRequest('readwrite', store => store.put(record, SESSION_KEY));
+};
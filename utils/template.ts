@@ -0,0 +1,124 @@
+import { formatMessage, MessageLanguage } from './messages';
+
+// Values a template can refer to when naming one contact
+export interface TemplateContext {
+  serial: number;
+  prefix: string;
+  batch: number; // 1-based batch number within the project
+  date: Date; // Creation time of the contact
+  number: string; // Local number
+  pattern: string;
+}
+
+// Reproduces the original fixed naming "0001 TEST <"
+export const DEFAULT_NAME_TEMPLATE = '{seq:4} {prefix}';
+
+type TemplatePart = string | { token: string; arg?: string };
+
+const KNOWN_TOKENS = ['seq', 'prefix', 'batch', 'date', 'last4', 'pattern'];
+const DATE_FIELDS = /YYYY|YY|MM|DD|HH|mm|ss/g;
+
+/**
+ * Splits a template into literal text and {token} / {token:arg} parts.
+ * "{{" and "}}" stand for literal braces. Returns an error message for malformed braces.
+ */
+const parseTemplate = (template: string, language: MessageLanguage = 'ar'): TemplatePart[] | string => {
+  const parts: TemplatePart[] = [];
+  let literal = '';
+  let i = 0;
+  while (i < template.length) {
+    const char = template[i];
+    if ((char === '{' || char === '}') && template[i + 1] === char) {
+      literal += char;
+      i += 2;
+    } else if (char === '}') {
+      return formatMessage(language, 'templateUnopenedBrace');
+    } else if (char === '{') {
+      const end = template.indexOf('}', i + 1);
+      if (end === -1) return formatMessage(language, 'templateUnclosedToken', { token: template.slice(i) });
+      const body = template.slice(i + 1, end);
+      const colon = body.indexOf(':');
+      if (literal) parts.push(literal);
+      literal = '';
+      parts.push(colon === -1 ? { token: body } : { token: body.slice(0, colon), arg: body.slice(colon + 1) });
+      i = end + 1;
+    } else {
+      literal += char;
+      i++;
+    }
+  }
+  if (literal) parts.push(literal);
+  return parts;
+};
+
+/**
+ * Checks a template for malformed braces, unknown tokens and invalid arguments.
+ * Returns an error message (Arabic by default), or null if the template is valid.
+ */
+export const validateTemplate = (template: string, language: MessageLanguage = 'ar'): string | null => {
+  const parts = parseTemplate(template, language);
+  if (typeof parts === 'string') return parts;
+
+  const unknown = parts
+    .filter((p): p is { token: string; arg?: string } => typeof p !== 'string' && !KNOWN_TOKENS.includes(p.token));
+  if (unknown.length > 0) {
+    const names = Array.from(new Set(unknown.map(p => `{${p.token}}`)));
+    return formatMessage(language, 'templateUnknownTokens', { names });
+  }
+
+  for (const part of parts) {
+    if (typeof part === 'string' || part.arg === undefined) continue;
+    if (part.token === 'seq' && !/^[1-9]$/.test(part.arg)) {
+      return formatMessage(language, 'templateSeqWidth', { arg: part.arg });
+    }
+    if (part.token === 'date' && !part.arg.match(DATE_FIELDS)) {
+      return formatMessage(language, 'templateDateFormat', { arg: part.arg });
+    }
+    if (part.token !== 'seq' && part.token !== 'date') {
+      return formatMessage(language, 'templateNoArgument', { token: part.token });
+    }
+  }
+  return null;
+};
+
+const formatDate = (date: Date, format: string): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const fields: Record<string, string> = {
+    YYYY: date.getFullYear().toString(),
+    YY: date.getFullYear().toString().slice(-2),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return format.replace(DATE_FIELDS, field => fields[field]);
+};
+
+/**
+ * Fills a template for one contact. The template must have passed validateTemplate.
+ */
+export const renderTemplate = (template: string, context: TemplateContext): string => {
+  const parts = parseTemplate(template);
+  if (typeof parts === 'string') throw new Error(parts);
+
+  return parts.map(part => {
+    if (typeof part === 'string') return part;
+    switch (part.token) {
+      case 'seq':
+        return context.serial.toString().padStart(Number(part.arg ?? 4), '0');
+      case 'prefix':
+        return context.prefix;
+      case 'batch':
+        return context.batch.toString();
+      case 'date':
+        return formatDate(context.date, part.arg ?? 'YYYYMMDD');
+      case 'last4':
+        return context.number.slice(-4);
+      case 'pattern':
+        return context.pattern;
+      default:
+        throw new Error(`Unknown template token: {${part.token}}`);
+    }
+  }).join('');
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedContact } from '../types';
+import { escapeVCardText, foldLine, generateVCF, serializeVCard } from './vcf';
+
+const encoder = new TextEncoder();
+
+const contact: GeneratedContact = { id: '0001', number: '0551234567', name: '0001 TEST', profileId: 'sa' };
+
+describe('escapeVCardText', () => {
+  it('escapes backslashes, commas, semicolons and newlines in 3.0 / 4.0', () => {
+    expect(escapeVCardText('a\\b,c;d\ne', '3.0')).toBe('a\\\\b\\,c\\;d\\ne');
+  });
+
+  it('only escapes semicolons in 2.1', () => {
+    expect(escapeVCardText('a,b;c\r\nd', '2.1')).toBe('a,b\\;c d');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldLine('FN:TEST')).toBe('FN:TEST');
+  });
+
+  it('folds at 75 octets without splitting a UTF-8 character', () => {
+    const folded = foldLine(`FN:${'اختبار '.repeat(20)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    lines.slice(1).forEach(line => expect(line.startsWith(' ')).toBe(true));
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`FN:${'اختبار '.repeat(20)}`);
+  });
+});
+
+describe('serializeVCard', () => {
+  it('writes a 3.0 card with CRLF line endings', () => {
+    expect(serializeVCard(contact)).toBe(
+      'BEGIN:VCARD\r\nVERSION:3.0\r\nN:;0001 TEST;;;\r\nFN:0001 TEST\r\nTEL;TYPE=CELL:0551234567\r\nEND:VCARD\r\n'
+    );
+  });
+
+  it('writes a tel: URI for international numbers in 4.0 and text otherwise', () => {
+    expect(serializeVCard(contact, { version: '4.0', numberFormat: 'international' }))
+      .toContain('TEL;VALUE=uri;TYPE=cell:tel:+966551234567\r\n');
+    expect(serializeVCard(contact, { version: '4.0' })).toContain('TEL;VALUE=text;TYPE=cell:0551234567\r\n');
+  });
+
+  it('encodes non-ASCII 2.1 values as quoted-printable UTF-8', () => {
+    const card = serializeVCard({ ...contact, name: 'أ=' }, { version: '2.1' });
+    expect(card).toContain('FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:=D8=A3=3D\r\n');
+    expect(card).toContain('TEL;CELL:0551234567\r\n');
+  });
+
+  it('breaks long 2.1 quoted-printable values with soft breaks instead of folding', () => {
+    const name = 'اختبار '.repeat(10).trim();
+    const card = serializeVCard({ ...contact, name }, { version: '2.1' });
+    const start = card.indexOf('FN;');
+    const lines = card.slice(start, card.indexOf('\r\nTEL', start)).split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(line.length).toBeLessThanOrEqual(76));
+    lines.slice(0, -1).forEach(line => expect(line.endsWith('=')).toBe(true));
+    lines.slice(1).forEach(line => expect(line.startsWith(' ')).toBe(false));
+
+    const encoded = lines.map((line, i) => (i < lines.length - 1 ? line.slice(0, -1) : line)).join('');
+    const bytes = encoded.slice(encoded.indexOf(':') + 1).replace(/=([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    expect(new TextDecoder().decode(Uint8Array.from(bytes, c => c.charCodeAt(0)))).toBe(name);
+  });
+
+  it('adds ORG, NOTE and escaped CATEGORIES', () => {
+    const card = serializeVCard(contact, { extraFields: () => ({ org: 'QA', note: 'a,b', categories: ['TEST', 'x,y'] }) });
+    expect(card).toContain('ORG:QA\r\nNOTE:a\\,b\r\nCATEGORIES:TEST,x\\,y\r\nEND:VCARD');
+  });
+});
+
+describe('generateVCF', () => {
+  it('concatenates one card per contact', () => {
+    const vcf = generateVCF([contact, { ...contact, id: '0002', number: '0551234568' }]);
+    expect(vcf.match(/BEGIN:VCARD\r\n/g)).toHaveLength(2);
+    expect(vcf.endsWith('END:VCARD\r\n')).toBe(true);
+  });
+});
@@ -1,16 +1,163 @@
-import { GeneratedContact } from '../types';
+import { GeneratedContact, NumberFormat, VCardVersion } from '../types';
+import { formatContactNumber } from './phone';
 
-export const generateVCF = (contacts: GeneratedContact[]): string => {
-  let vcfContent = '';
+export interface VCFOptions {
+  version?: VCardVersion; // Defaults to '3.0', the most widely imported version
+  numberFormat?: NumberFormat; // Defaults to 'local'
+  fallbackProfileId?: string; // Used for contacts without a recorded profile
+  extraFields?: (contact: GeneratedContact) => VCardExtraFields; // Optional ORG / NOTE / CATEGORIES per contact
+}
 
-  contacts.forEach(contact => {
-    vcfContent += 'BEGIN:VCARD\n';
-    vcfContent += 'VERSION:3.0\n';
-    vcfContent += `N:;${contact.name};;;\n`;
-    vcfContent += `FN:${contact.name}\n`;
-    vcfContent += `TEL;TYPE=CELL:${contact.number}\n`;
-    vcfContent += 'END:VCARD\n';
-  });
+export interface VCardExtraFields {
+  org?: string;
+  note?: string;
+  categories?: string[];
+}
 
-  return vcfContent;
+const CRLF = '\r\n';
+// RFC 6350 3.2: lines SHOULD NOT be longer than 75 octets, excluding the line break
+const MAX_LINE_OCTETS = 75;
+// vCard 2.1 quoted-printable lines are limited to 76 characters including the soft break '='
+const MAX_QP_LINE = 75;
+
+const encoder = new TextEncoder();
+
+const isAscii = (value: string): boolean => /^[\x20-\x7e]*$/.test(value);
+
+/**
+ * Escapes a text value (or one component of a structured value).
+ * 3.0 / 4.0 escape backslash, comma, semicolon and newlines (RFC 6350 3.4);
+ * 2.1 only defines an escape for the semicolon.
+ */
+export const escapeVCardText = (value: string, version: VCardVersion): string => {
+  if (version === '2.1') {
+    return value.replace(/;/g, '\\;').replace(/\r\n|\r|\n/g, ' ');
+  }
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+};
+
+/**
+ * Folds a content line at 75 octets without splitting a multi-byte UTF-8 character.
+ * Continuation lines start with a single space, which counts towards their length.
+ */
+export const foldLine = (line: string): string => {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    if (currentOctets + octets > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      currentOctets = 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  lines.push(current);
+  return lines.join(CRLF);
+};
+
+/**
+ * Quoted-printable encoding for vCard 2.1, with '=' soft line breaks.
+ * Every byte outside printable ASCII, plus '=' itself, is encoded; separators stay literal.
+ */
+const encodeQuotedPrintable = (value: string, firstLineUsed: number): string => {
+  const lines: string[] = [];
+  let current = '';
+  let limit = MAX_QP_LINE - firstLineUsed;
+
+  const push = (chunk: string) => {
+    if (current.length + chunk.length > limit) {
+      lines.push(current + '=');
+      current = '';
+      limit = MAX_QP_LINE;
+    }
+    current += chunk;
+  };
+
+  for (const char of value) {
+    const bytes = encoder.encode(char);
+    if (bytes.length === 1 && bytes[0] >= 0x20 && bytes[0] <= 0x7e && char !== '=') {
+      push(char);
+    } else {
+      // Keep the encoded bytes of one character on the same line
+      push(Array.from(bytes, b => '=' + b.toString(16).toUpperCase().padStart(2, '0')).join(''));
+    }
+  }
+  lines.push(current);
+  return lines.join(CRLF);
+};
+
+/**
+ * Serializes one property. `value` must already be escaped for the version.
+ * Non-ASCII values in 2.1 are marked as UTF-8 and quoted-printable encoded for old importers.
+ */
+const serializeProperty = (
+  name: string,
+  params: string[],
+  value: string,
+  version: VCardVersion
+): string => {
+  if (version === '2.1' && !isAscii(value)) {
+    const head = [name, ...params, 'CHARSET=UTF-8', 'ENCODING=QUOTED-PRINTABLE'].join(';') + ':';
+    return head + encodeQuotedPrintable(value, head.length);
+  }
+  return foldLine([name, ...params].join(';') + ':' + value);
+};
+
+/**
+ * Builds the TEL property for the version. 4.0 prefers a tel: URI, which requires
+ * an international number; local numbers are written as text instead.
+ */
+const serializeTel = (number: string, version: VCardVersion): string => {
+  switch (version) {
+    case '2.1':
+      return serializeProperty('TEL', ['CELL'], number, version);
+    case '3.0':
+      return serializeProperty('TEL', ['TYPE=CELL'], number, version);
+    case '4.0':
+      return number.startsWith('+')
+        ? serializeProperty('TEL', ['VALUE=uri', 'TYPE=cell'], `tel:${number}`, version)
+        : serializeProperty('TEL', ['VALUE=text', 'TYPE=cell'], number, version);
+  }
+};
+
+/**
+ * Serializes a single contact as one vCard, each line terminated by CRLF.
+ */
+export const serializeVCard = (contact: GeneratedContact, options?: VCFOptions): string => {
+  const version = options?.version ?? '3.0';
+  const tel = formatContactNumber(contact, options?.numberFormat ?? 'local', options?.fallbackProfileId);
+  const name = escapeVCardText(contact.name, version);
+  const extra = options?.extraFields?.(contact) ?? {};
+
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    // N is structured (family;given;additional;prefix;suffix); the whole name goes into "given"
+    serializeProperty('N', [], `;${name};;;`, version),
+    serializeProperty('FN', [], name, version),
+    serializeTel(tel, version)
+  ];
+  // ORG is structured too; the whole value is written as the organization name
+  if (extra.org) lines.push(serializeProperty('ORG', [], escapeVCardText(extra.org, version), version));
+  if (extra.note) lines.push(serializeProperty('NOTE', [], escapeVCardText(extra.note, version), version));
+  // CATEGORIES is a comma-separated list, so only the individual values are escaped
+  if (extra.categories?.length) {
+    const categories = extra.categories.map(category => escapeVCardText(category, version)).join(',');
+    lines.push(serializeProperty('CATEGORIES', [], categories, version));
+  }
+  lines.push('END:VCARD');
+  return lines.join(CRLF) + CRLF;
+};
+
+export const generateVCF = (contacts: GeneratedContact[], options?: VCFOptions): string => {
+  return contacts.map(contact => serializeVCard(contact, options)).join('');
 };
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedContact, GenerationOptions } from '../types';
+import { generatePhoneNumbers } from './generator';
+import { verifyContacts } from './verification';
+
+const contact = (number: string, id = number): GeneratedContact => ({ id, number, name: 'TEST', isSaved: false });
+
+describe('verifyContacts', () => {
+  it('passes everything the generator produces', () => {
+    const patterns = ['05________', '05_____123', '051_3_____', '05[13579]_______', '0512345_[0-2]_', '0512_3_4_5'];
+    const optionSets: GenerationOptions[] = [
+      { repetitionDensity: 0 },
+      { repetitionDensity: 0.3 },
+      { repetitionDensity: 0.6 },
+      {
+        repetitionDensity: 0.3,
+        constraints: { maxDigitFrequency: 3, maxRunLength: 1, maxSequenceLength: 2, forbiddenSubstrings: ['00', '911'] }
+      }
+    ];
+
+    // 'auto' enumerates the small patterns exhaustively, so both samplers are covered
+    for (const pattern of patterns) {
+      for (const options of optionSets) {
+        for (const seed of [1, 7, 42]) {
+          const generationOptions = { ...options, seed };
+          const { contacts } = generatePhoneNumbers({ pattern, count: 300, contactNamePrefix: 'TEST' }, generationOptions);
+          const report = verifyContacts(contacts, pattern, generationOptions);
+          expect(report.violations, `${pattern} ${JSON.stringify(generationOptions)}`).toEqual([]);
+        }
+      }
+    }
+  });
+
+  it('reports a sequence that runs into the fixed digits', () => {
+    const report = verifyContacts([contact('0501970123')], '05_____123', { repetitionDensity: 0.3 });
+    expect(report.violations).toEqual([
+      expect.objectContaining({ kind: 'sequence', detail: 'تسلسل "0123" (الحد 2).' })
+    ]);
+  });
+
+  it('leaves stretches made of fixed digits only alone', () => {
+    const report = verifyContacts([contact('0580629123')], '05_____123', { repetitionDensity: 0.3 });
+    expect(report.violations).toEqual([]);
+  });
+
+  it('reports each kind of violation', () => {
+    const options: GenerationOptions = {
+      repetitionDensity: 0,
+      constraints: { maxDigitFrequency: 3, maxRunLength: 2, maxSequenceLength: 3, forbiddenSubstrings: ['77'] }
+    };
+    const report = verifyContacts([
+      contact('0511213141', '1'), // four 1s among the free digits
+      contact('0522203948', '2'), // run "222"
+      contact('0512349608', '3'), // sequence "1234"
+      contact('0507709182', '4'), // forbidden "77"
+      contact('0507709182', '5'), // the same number again
+      contact('0612345678', '6') // does not start with 05
+    ], '05________', options);
+
+    const kindsOf = (id: string) => report.violations.filter(v => v.contactId === id).map(v => v.kind);
+    expect(kindsOf('1')).toEqual(['frequency']);
+    expect(kindsOf('2')).toEqual(['run']);
+    expect(kindsOf('3')).toEqual(['sequence']);
+    expect(kindsOf('4')).toEqual(['forbidden']);
+    expect(kindsOf('5')).toEqual(['duplicate', 'forbidden']);
+    expect(kindsOf('6')).toEqual(['pattern']);
+    expect(report.checked).toBe(6);
+  });
+});
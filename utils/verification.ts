@@ -0,0 +1,125 @@
+import {
+  ContactViolation,
+  GeneratedContact,
+  GenerationOptions,
+  PatternSlot,
+  VerificationReport,
+  ViolationKind
+} from '../types';
+import { resolveConstraints } from './constraints';
+import { requirePatternSlots } from './pattern';
+import { formatMessage, MessageLanguage } from './messages';
+
+export const VIOLATION_LABELS: Record<ViolationKind, string> = {
+  pattern: 'لا يطابق النمط',
+  frequency: 'تجاوز حد تكرار الرقم',
+  run: 'تكرار متتالي',
+  sequence: 'تسلسل',
+  forbidden: 'مقطع ممنوع',
+  duplicate: 'رقم مكرر'
+};
+
+const matchesSlots = (number: string, slots: PatternSlot[]): boolean => {
+  if (number.length !== slots.length || !/^[0-9]+$/.test(number)) return false;
+  return slots.every((slot, i) => slot.digits.includes(number.charCodeAt(i) - 48));
+};
+
+/**
+ * Finds the longest stretch of the whole number (fixed digits included) where each digit
+ * follows the previous one as `matches` requires (identical digits for runs, +1/-1 for sequences).
+ * Stretches made of fixed digits only are skipped: the pattern itself put them there.
+ * Returns [start, length] of the longest stretch, or null when none touches a free slot.
+ */
+const findLongestStretch = (
+  number: string,
+  isFree: boolean[],
+  matches: (previous: number, current: number) => boolean
+): [number, number] | null => {
+  let best: [number, number] | null = null;
+  let start = 0;
+  for (let i = 1; i <= number.length; i++) {
+    const continues = i < number.length && matches(number.charCodeAt(i - 1) - 48, number.charCodeAt(i) - 48);
+    if (continues) continue;
+    const length = i - start;
+    const touchesFree = isFree.slice(start, i).some(Boolean);
+    if (touchesFree && (best === null || length > best[1])) best = [start, length];
+    start = i;
+  }
+  return best;
+};
+
+/**
+ * Checks every contact against the pattern and its constraints after the fact, with the
+ * generator's definitions: frequency counts the free digits, runs and sequences are measured
+ * over the whole number (…1_3… with a 2 is the sequence 123), forbidden substrings too.
+ * Numbers that do not fit the pattern are reported as 'pattern' and skip the digit rules.
+ */
+export const verifyContacts = (
+  contacts: GeneratedContact[],
+  pattern: string,
+  options?: GenerationOptions,
+  language: MessageLanguage = 'ar'
+): VerificationReport => {
+  const slots = requirePatternSlots(pattern);
+  const isFree = slots.map(slot => !slot.isFixed);
+  const constraints = resolveConstraints(isFree.filter(Boolean).length, options);
+  const { maxDigitFrequency, maxRunLength, maxSequenceLength, forbiddenSubstrings } = constraints;
+
+  const violations: ContactViolation[] = [];
+  const seen = new Set<string>();
+
+  for (const contact of contacts) {
+    const { number } = contact;
+    const report = (kind: ViolationKind, detail: string) => {
+      violations.push({ contactId: contact.id, number, kind, detail });
+    };
+
+    if (seen.has(number)) report('duplicate', formatMessage(language, 'violationDuplicate'));
+    seen.add(number);
+
+    const fitsPattern = matchesSlots(number, slots);
+    if (!fitsPattern) {
+      report('pattern', formatMessage(language, 'violationPattern', { pattern }));
+    }
+
+    if (fitsPattern && maxDigitFrequency !== null) {
+      const counts = new Array<number>(10).fill(0);
+      isFree.forEach((free, i) => {
+        if (free) counts[number.charCodeAt(i) - 48]++;
+      });
+      const digit = counts.findIndex(c => c > maxDigitFrequency);
+      if (digit !== -1) {
+        report('frequency', formatMessage(language, 'violationFrequency', { digit, count: counts[digit], limit: maxDigitFrequency }));
+      }
+    }
+
+    if (fitsPattern && maxRunLength !== null) {
+      const run = findLongestStretch(number, isFree, (a, b) => a === b);
+      if (run && run[1] > maxRunLength) {
+        report('run', formatMessage(language, 'violationRun', { digits: number.slice(run[0], run[0] + run[1]), limit: maxRunLength }));
+      }
+    }
+
+    if (fitsPattern && maxSequenceLength !== null) {
+      const sequence = [
+        findLongestStretch(number, isFree, (a, b) => b - a === 1),
+        findLongestStretch(number, isFree, (a, b) => b - a === -1)
+      ]
+        .filter((s): s is [number, number] => s !== null)
+        .sort((a, b) => b[1] - a[1])[0];
+      if (sequence && sequence[1] > maxSequenceLength) {
+        report('sequence', formatMessage(language, 'violationSequence', {
+          digits: number.slice(sequence[0], sequence[0] + sequence[1]),
+          limit: maxSequenceLength
+        }));
+      }
+    }
+
+    const forbidden = forbiddenSubstrings.find(s => number.includes(s));
+    if (forbidden) report('forbidden', formatMessage(language, 'violationForbidden', { substring: forbidden }));
+  }
+
+  const counts: Record<ViolationKind, number> = { pattern: 0, frequency: 0, run: 0, sequence: 0, forbidden: 0, duplicate: 0 };
+  violations.forEach(v => counts[v.kind]++);
+  return { checked: contacts.length, violations, counts };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+const decoder = new TextDecoder();
+
+// Reads the entries back through the central directory, as unzip tools do
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  return Array.from({ length: count }, () => {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength;
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    return { name, crc, content: decoder.decode(zip.subarray(dataStart, dataStart + size)) };
+  });
+};
+
+describe('createZip', () => {
+  it('stores every entry with its name, content and CRC-32', () => {
+    const zip = createZip([
+      { name: 'hello.txt', content: 'hello' },
+      { name: 'جهات_part_01_of_02.vcf', content: 'BEGIN:VCARD\r\nEND:VCARD\r\n' }
+    ]);
+    const entries = readZip(zip);
+    expect(entries.map(e => e.name)).toEqual(['hello.txt', 'جهات_part_01_of_02.vcf']);
+    expect(entries[0]).toMatchObject({ content: 'hello', crc: 0x3610a686 });
+    expect(entries[1].content).toBe('BEGIN:VCARD\r\nEND:VCARD\r\n');
+  });
+
+  it('writes the date in MS-DOS format', () => {
+    const zip = createZip([{ name: 'a.txt', content: '' }], new Date(2024, 4, 17, 13, 45, 30));
+    const view = new DataView(zip.buffer);
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+  });
+
+  it('builds an empty archive', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+});
@@ -0,0 +1,29 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Node build of the headless library (lib/index.ts) and the whatsapp-x CLI (lib/cli.ts)
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  },
+  build: {
+    ssr: true,
+    target: 'node18',
+    outDir: 'dist-lib',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        index: path.resolve(__dirname, 'lib/index.ts'),
+        cli: path.resolve(__dirname, 'lib/cli.ts')
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        chunkFileNames: 'chunks/[name]-[hash].js',
+        banner: chunk => (chunk.name === 'cli' ? '#!/usr/bin/env node' : '')
+      }
+    }
+  }
+});